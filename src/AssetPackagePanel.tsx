@@ -0,0 +1,117 @@
+import { type FC } from 'react';
+
+import { getFilenamePatternKeys } from './assetPackage';
+import { type AssetPackage, type BlockTheme, type PackageFileVariant } from './types';
+
+interface AssetPackagePanelProps {
+    variant: PackageFileVariant;
+    onVariantChange: (variant: PackageFileVariant) => void;
+    filenamePattern: string;
+    onFilenamePatternChange: (pattern: string) => void;
+    /** Column keys that can be used in the pattern */
+    fieldKeys: string[];
+    /** Outcome of the last package, without its file */
+    result: Omit<AssetPackage, 'file'> | null;
+    isCreating: boolean;
+    disabled: boolean;
+    onDownload: () => void;
+    theme: BlockTheme;
+}
+
+/**
+ * Options for downloading the asset files as a ZIP with a metadata manifest, and the files that failed
+ */
+export const AssetPackagePanel: FC<AssetPackagePanelProps> = ({
+    variant,
+    onVariantChange,
+    filenamePattern,
+    onFilenamePatternChange,
+    fieldKeys,
+    result,
+    isCreating,
+    disabled,
+    onDownload,
+    theme,
+}) => {
+    const unknownKeys = getFilenamePatternKeys(filenamePattern).filter((key) => !fieldKeys.includes(key));
+
+    return (
+        <div className="tw-text-sm tw-space-y-3" style={{ color: theme.textColor }}>
+            <div className="tw-flex tw-flex-wrap tw-items-center tw-gap-4">
+                <label className="tw-flex tw-items-center tw-gap-2">
+                    <input
+                        type="radio"
+                        name="package-variant"
+                        checked={variant === 'original'}
+                        onChange={() => onVariantChange('original')}
+                    />
+                    Original files
+                </label>
+                <label className="tw-flex tw-items-center tw-gap-2">
+                    <input
+                        type="radio"
+                        name="package-variant"
+                        checked={variant === 'preview'}
+                        onChange={() => onVariantChange('preview')}
+                    />
+                    Previews
+                </label>
+            </div>
+
+            <label className="tw-flex tw-items-center tw-gap-2">
+                File names:
+                <input
+                    type="text"
+                    value={filenamePattern}
+                    onChange={(e) => onFilenamePatternChange(e.target.value)}
+                    placeholder="{title}_{id}"
+                    className="tw-flex-1 tw-px-2 tw-py-1 tw-rounded"
+                    style={{ border: `1px solid ${theme.borderColor}`, color: theme.textColor }}
+                />
+            </label>
+            <p style={{ opacity: 0.8 }}>
+                Put column keys in braces, e.g. <code>{'{title}_{id}'}</code> or <code>{'{SKU}-{title}'}</code>.
+                Repeated names get a numeric suffix. The ZIP contains a <code>manifest.csv</code> with the metadata and
+                each file&apos;s path in the archive.
+            </p>
+            {unknownKeys.length > 0 && (
+                <p style={{ color: '#92400e' }}>
+                    Not a known column, so left empty: {unknownKeys.join(', ')}. Load a preview to check custom metadata
+                    names.
+                </p>
+            )}
+
+            <button
+                type="button"
+                onClick={onDownload}
+                disabled={disabled}
+                className="tw-px-4 tw-py-2 tw-rounded tw-font-semibold"
+                style={{
+                    border: `1px solid ${theme.primaryColor}`,
+                    color: theme.primaryColor,
+                    cursor: disabled ? 'not-allowed' : 'pointer',
+                }}
+            >
+                {isCreating ? 'Downloading files...' : 'Download Package (ZIP)'}
+            </button>
+
+            {result && (
+                <div>
+                    <p>
+                        {result.fileCount.toLocaleString()} files packaged
+                        {result.failures.length > 0 && `, ${result.failures.length.toLocaleString()} failed`}.
+                    </p>
+                    {result.failures.length > 0 && (
+                        <ul className="tw-list-disc tw-list-inside tw-mt-1 tw-space-y-1" style={{ color: '#991b1b' }}>
+                            {result.failures.map((failure) => (
+                                <li key={failure.assetId}>
+                                    {failure.title || failure.assetId}: {failure.reason}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
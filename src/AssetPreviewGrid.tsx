@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState, type FC, type PointerEvent as ReactPointerEvent } from 'react';
+
+import { getThumbnailUrl } from './assetPreview';
+import { type BlockTheme, type ExportColumn, type PreviewRow, type PreviewView } from './types';
+
+interface AssetPreviewGridProps {
+    rows: PreviewRow[];
+    totalRowCount: number;
+    columns: ExportColumn[];
+    view: PreviewView;
+    onViewChange: (view: PreviewView) => void;
+    theme: BlockTheme;
+}
+
+const ROW_HEIGHT = 44;
+const HEADER_HEIGHT = 40;
+const VIEWPORT_HEIGHT = 480;
+// Rows rendered above and below the viewport so fast scrolling doesn't flash empty space
+const OVERSCAN_ROWS = 8;
+const THUMBNAIL_COLUMN_WIDTH = 56;
+const DEFAULT_COLUMN_WIDTH = 180;
+const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * Virtualised table of the assets about to be exported, with thumbnails, search, sortable and resizable columns.
+ * Only the rows in view are rendered, so thousands of assets scroll smoothly.
+ */
+export const AssetPreviewGrid: FC<AssetPreviewGridProps> = ({
+    rows,
+    totalRowCount,
+    columns,
+    view,
+    onViewChange,
+    theme,
+}) => {
+    const [scrollTop, setScrollTop] = useState(0);
+    const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+    const scrollContainerRef = useRef<HTMLDivElement>(null);
+    const resizeCleanupRef = useRef<(() => void) | null>(null);
+
+    // Stop listening for pointer moves if the grid unmounts mid-resize
+    useEffect(() => () => resizeCleanupRef.current?.(), []);
+
+    // A new search or sort starts at the top
+    useEffect(() => {
+        scrollContainerRef.current?.scrollTo({ top: 0 });
+    }, [view]);
+
+    const getColumnWidth = (key: string) => columnWidths[key] ?? DEFAULT_COLUMN_WIDTH;
+    const totalWidth = columns.reduce((total, { key }) => total + getColumnWidth(key), THUMBNAIL_COLUMN_WIDTH);
+
+    const firstRowIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRowIndex = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+    const renderedRows = rows.slice(firstRowIndex, lastRowIndex);
+
+    const toggleSort = (key: string) => {
+        // Cycle ascending -> descending -> unsorted
+        if (view.sort?.key !== key) {
+            onViewChange({ ...view, sort: { key, direction: 'asc' } });
+        } else if (view.sort.direction === 'asc') {
+            onViewChange({ ...view, sort: { key, direction: 'desc' } });
+        } else {
+            onViewChange({ ...view, sort: null });
+        }
+    };
+
+    const startResize = (key: string, event: ReactPointerEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        const startX = event.clientX;
+        const startWidth = getColumnWidth(key);
+
+        const handlePointerMove = (moveEvent: PointerEvent) => {
+            const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+            setColumnWidths((previous) => ({ ...previous, [key]: width }));
+        };
+        const stopResize = () => {
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', stopResize);
+            resizeCleanupRef.current = null;
+        };
+
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', stopResize);
+        resizeCleanupRef.current = stopResize;
+    };
+
+    const getSortIndicator = (key: string) => {
+        if (view.sort?.key !== key) {
+            return '';
+        }
+        return view.sort.direction === 'asc' ? ' ▲' : ' ▼';
+    };
+
+    return (
+        <div>
+            <div className="tw-flex tw-items-center tw-justify-between tw-gap-4 tw-mb-2">
+                <input
+                    type="search"
+                    aria-label="Search assets"
+                    placeholder="Search assets…"
+                    value={view.searchText}
+                    onChange={(e) => onViewChange({ ...view, searchText: e.target.value })}
+                    className="tw-flex-1 tw-px-3 tw-py-2 tw-rounded tw-text-sm"
+                    style={{ border: `1px solid ${theme.borderColor}`, color: theme.textColor }}
+                />
+                <span className="tw-text-sm tw-whitespace-nowrap" style={{ color: theme.textColor, opacity: 0.8 }}>
+                    {rows.length === totalRowCount
+                        ? `${totalRowCount.toLocaleString()} assets`
+                        : `${rows.length.toLocaleString()} of ${totalRowCount.toLocaleString()} assets`}
+                </span>
+            </div>
+
+            <div
+                ref={scrollContainerRef}
+                role="table"
+                aria-rowcount={rows.length + 1}
+                className="tw-overflow-auto tw-rounded-lg tw-text-sm"
+                style={{
+                    height: VIEWPORT_HEIGHT + HEADER_HEIGHT,
+                    border: `1px solid ${theme.borderColor}`,
+                    color: theme.textColor,
+                }}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+            >
+                <div style={{ width: totalWidth, minWidth: '100%' }}>
+                    <div
+                        role="row"
+                        aria-rowindex={1}
+                        className="tw-flex tw-sticky tw-top-0 tw-z-10 tw-font-semibold"
+                        style={{
+                            height: HEADER_HEIGHT,
+                            backgroundColor: 'white',
+                            borderBottom: `1px solid ${theme.borderColor}`,
+                        }}
+                    >
+                        <div role="columnheader" style={{ width: THUMBNAIL_COLUMN_WIDTH, flexShrink: 0 }}>
+                            <span className="tw-sr-only">Preview</span>
+                        </div>
+                        {columns.map(({ key, label }) => (
+                            <div
+                                key={key}
+                                role="columnheader"
+                                aria-sort={
+                                    view.sort?.key === key
+                                        ? view.sort.direction === 'asc'
+                                            ? 'ascending'
+                                            : 'descending'
+                                        : 'none'
+                                }
+                                className="tw-relative tw-flex tw-items-center"
+                                style={{ width: getColumnWidth(key), flexShrink: 0 }}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={() => toggleSort(key)}
+                                    className="tw-w-full tw-h-full tw-px-2 tw-text-left tw-truncate"
+                                    title={`Sort by ${label}`}
+                                >
+                                    {label}
+                                    {getSortIndicator(key)}
+                                </button>
+                                <div
+                                    role="separator"
+                                    aria-orientation="vertical"
+                                    aria-label={`Resize ${label} column`}
+                                    onPointerDown={(e) => startResize(key, e)}
+                                    className="tw-absolute tw-top-0 tw-right-0 tw-h-full tw-w-2 tw-cursor-col-resize"
+                                    style={{ borderRight: `1px solid ${theme.borderColor}` }}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {rows.length === 0 ? (
+                        <p className="tw-p-4" style={{ opacity: 0.8 }}>
+                            No assets match your search.
+                        </p>
+                    ) : (
+                        <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+                            {renderedRows.map(({ asset, data }, index) => {
+                                const rowIndex = firstRowIndex + index;
+                                const thumbnailUrl = getThumbnailUrl(asset.previewUrl);
+
+                                return (
+                                    <div
+                                        key={asset.id}
+                                        role="row"
+                                        aria-rowindex={rowIndex + 2}
+                                        className="tw-flex tw-items-center tw-absolute tw-left-0 tw-right-0"
+                                        style={{
+                                            top: rowIndex * ROW_HEIGHT,
+                                            height: ROW_HEIGHT,
+                                            borderBottom: `1px solid ${theme.borderColor}`,
+                                        }}
+                                    >
+                                        <div
+                                            role="cell"
+                                            className="tw-flex tw-items-center tw-justify-center"
+                                            style={{ width: THUMBNAIL_COLUMN_WIDTH, flexShrink: 0 }}
+                                        >
+                                            {thumbnailUrl && (
+                                                <img
+                                                    src={thumbnailUrl}
+                                                    alt=""
+                                                    loading="lazy"
+                                                    className="tw-rounded tw-object-cover"
+                                                    style={{ width: 36, height: 36 }}
+                                                />
+                                            )}
+                                        </div>
+                                        {columns.map(({ key }) => (
+                                            <div
+                                                key={key}
+                                                role="cell"
+                                                className="tw-px-2 tw-truncate"
+                                                style={{ width: getColumnWidth(key), flexShrink: 0 }}
+                                                title={String(data[key] ?? '')}
+                                            >
+                                                {data[key] ?? ''}
+                                            </div>
+                                        ))}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
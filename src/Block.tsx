@@ -1,22 +1,243 @@
-import { useBlockSettings, useEditorState, rgbObjectToRgbString } from '@frontify/app-bridge';
+import {
+    HttpClient,
+    HttpClientError,
+    useBlockSettings,
+    useEditorState,
+    rgbObjectToRgbString,
+    type AppBridgeBlock,
+} from '@frontify/app-bridge';
 import { type BlockProps } from '@frontify/guideline-blocks-settings';
-import { useEffect, useState, type FC } from 'react';
+import { useEffect, useMemo, useRef, useState, type FC } from 'react';
+
+import { AssetPackagePanel } from './AssetPackagePanel';
+import { AssetPreviewGrid } from './AssetPreviewGrid';
+import { CHANGES_SINCE_ALL, CHANGES_SINCE_DATE, ChangesSinceSelector } from './ChangesSinceSelector';
+import { CollectionPicker } from './CollectionPicker';
+import { ExpiryDashboard } from './ExpiryDashboard';
+import { FilterBuilder } from './FilterBuilder';
+import { ImportPanel } from './ImportPanel';
+import { MetadataReportView } from './MetadataReportView';
+import { SnapshotDiffPanel } from './SnapshotDiffPanel';
+import { DEFAULT_PACKAGE_FILENAME_PATTERN } from './assetPackage';
+import { getVisiblePreviewRows, restrictToAssets } from './assetPreview';
+import { CachedDataSource, DEFAULT_CACHE_TTL_MINUTES } from './cachedDataSource';
+import { CSV_DELIMITERS, DEFAULT_CSV_DIALECT } from './csvWriter';
+import { MULTI_VALUE_SEPARATORS } from './customMetadataValues';
+import { downloadExportFile } from './download';
+import { getErrorGuidance, type PartialDataError } from './errors';
+import { resolveColumnKey } from './exportColumns';
+import { EMPTY_EXPORT_FILTER, isFilterActive, matchesExportFilter } from './exportFilters';
+import { STANDARD_COLUMN_KEYS, getDefaultColumns, parseExportProfiles, setProfileFilter } from './exportProfiles';
+import {
+    LIBRARY_WATERMARK_SCOPE,
+    createExportWatermark,
+    findBaselineWatermark,
+    getWatermarkCutoff,
+    loadExportWatermarks,
+    saveExportWatermark,
+    selectChangedAssets,
+} from './exportWatermarks';
+import { FixtureDataSource } from './fixtureDataSource';
 import { FrontifyService } from './frontifyService';
-import type { Settings, FrontifyCollection } from './types';
+import { GraphQLDataSource, type GraphQLDataSourceOptions } from './graphqlDataSource';
+import { type GraphQLAuthentication, type SessionRequest } from './graphqlTransport';
+import { getHttpDestination, hasDestinationCredentials, uploadExportFile } from './httpDestination';
+import { formatCacheAge, MetadataCache } from './metadataCache';
+import { ROW_LAYOUT_LABELS } from './rowLayout';
+import {
+    type Settings,
+    type FrontifyCollection,
+    type FrontifyDataSource,
+    type FrontifyServiceOptions,
+    type ExportProgress,
+    type ExportFormat,
+    type BlockTheme,
+    type MultiCollectionExportMode,
+    type CollectionAssetsResult,
+    type ExportChanges,
+    type ExportSource,
+    type ExportColumn,
+    type FrontifyAsset,
+    type PreviewRow,
+    type PreviewView,
+    type ExportFilter,
+    type MetadataReport,
+    type ExpiryOverview,
+    type AssetPackage,
+    type PackageFileVariant,
+    type RowLayout,
+    type SnapshotDiff,
+    type ExportWatermark,
+    type HttpDestinationResponse,
+} from './types';
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    csv: 'CSV',
+    xlsx: 'Excel (XLSX)',
+    json: 'JSON',
+    ndjson: 'NDJSON',
+};
+
+const EXPORT_FORMAT_DESCRIPTIONS: Record<ExportFormat, string> = {
+    csv: 'CSV (includes all metadata fields, preview URLs, and custom fields)',
+    xlsx: 'Excel workbook with real date and number cells, a frozen header row and sized columns.',
+    json: 'Single JSON document keeping tags, option IDs, copyright and custom metadata as nested structures.',
+    ndjson: 'Newline-delimited JSON with one structured asset record per line.',
+};
+
+const DEFAULT_PREVIEW_VIEW: PreviewView = { searchText: '', sort: null };
+
+/**
+ * GraphQL requests of the signed-in user go through App Bridge's HttpClient, which adds the session's CSRF token,
+ * like App Bridge's own requests to the Frontify backend
+ */
+const requestWithSession: SessionRequest = async (path, body) => {
+    try {
+        const { result } = await HttpClient.post(path, body);
+        return { status: 200, body: result };
+    } catch (error) {
+        if (error instanceof HttpClientError) {
+            return { status: error.code, body: error.responseBody };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Whose metadata cache to use: the token's, or the signed-in user's
+ */
+const getCacheCredential = async (
+    appBridge: AppBridgeBlock,
+    authentication: GraphQLAuthentication,
+): Promise<string> => {
+    if (authentication.type === 'token') {
+        return authentication.token;
+    }
+    const user = await appBridge.api({ name: 'getCurrentUser' });
+    return `user:${user.id}`;
+};
+
+/**
+ * The bundled sample library in demo mode, otherwise the configured library through the GraphQL API,
+ * cached in the browser unless `cacheTtlMs` is 0. `getCacheCredential` names whose cache to use.
+ */
+const createDataSource = (
+    isDemoMode: boolean,
+    domain: string,
+    authentication: GraphQLAuthentication,
+    libraryId: string,
+    cacheTtlMs: number,
+    getCacheCredential: () => Promise<string>,
+    options?: GraphQLDataSourceOptions,
+): FrontifyDataSource => {
+    if (isDemoMode) {
+        return new FixtureDataSource();
+    }
+    const source = new GraphQLDataSource(domain, authentication, libraryId, options);
+    return cacheTtlMs > 0
+        ? new CachedDataSource(
+              source,
+              getCacheCredential().then((credential) => MetadataCache.open(libraryId, credential)),
+              cacheTtlMs,
+          )
+        : source;
+};
+
+/**
+ * Assets loaded for the preview grid, kept so the export can reuse them without fetching again
+ */
+interface LoadedPreview {
+    result: CollectionAssetsResult;
+    source: ExportSource;
+    rows: PreviewRow[];
+    /** Every column of the loaded assets, custom metadata keyed by property ID */
+    columns: ExportColumn[];
+}
 
 export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
-    const [blockSettings] = useBlockSettings<Settings>(appBridge);
+    const [blockSettings, setBlockSettings] = useBlockSettings<Settings>(appBridge);
     const isEditing = useEditorState(appBridge);
     const [collections, setCollections] = useState<FrontifyCollection[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [selectedCollectionId, setSelectedCollectionId] = useState<string>('');
+    const [selectedCollectionIds, setSelectedCollectionIds] = useState<string[]>([]);
     const [isExporting, setIsExporting] = useState(false);
+    const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+    const [warnings, setWarnings] = useState<string[]>([]);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+    const [sheetPerAssetType, setSheetPerAssetType] = useState(false);
+    const [rowLayout, setRowLayout] = useState<RowLayout>('wide');
+    const [explodeColumn, setExplodeColumn] = useState('tags');
+    const [selectedProfileName, setSelectedProfileName] = useState('');
+    const [exportFilter, setExportFilter] = useState<ExportFilter>(EMPTY_EXPORT_FILTER);
+    const [newProfileName, setNewProfileName] = useState('');
+    const [multiCollectionMode, setMultiCollectionMode] = useState<MultiCollectionExportMode>('merged');
+    const [exportEntireLibrary, setExportEntireLibrary] = useState(false);
+    const [preview, setPreview] = useState<LoadedPreview | null>(null);
+    const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+    const [previewView, setPreviewView] = useState<PreviewView>(DEFAULT_PREVIEW_VIEW);
+    const [report, setReport] = useState<MetadataReport | null>(null);
+    const [isCreatingReport, setIsCreatingReport] = useState(false);
+    const [expiryOverview, setExpiryOverview] = useState<ExpiryOverview | null>(null);
+    const [isLoadingExpiry, setIsLoadingExpiry] = useState(false);
+    const [packageVariant, setPackageVariant] = useState<PackageFileVariant>('original');
+    const [packageFilenamePattern, setPackageFilenamePattern] = useState(DEFAULT_PACKAGE_FILENAME_PATTERN);
+    const [isCreatingPackage, setIsCreatingPackage] = useState(false);
+    const [packageResult, setPackageResult] = useState<Omit<AssetPackage, 'file'> | null>(null);
+    const [snapshotDiff, setSnapshotDiff] = useState<SnapshotDiff | null>(null);
+    const [isComparingSnapshot, setIsComparingSnapshot] = useState(false);
+    const [collectionsCachedAt, setCollectionsCachedAt] = useState<Date | null>(null);
+    const [refreshCount, setRefreshCount] = useState(0);
+    const [changesSince, setChangesSince] = useState(CHANGES_SINCE_ALL);
+    const [changesSinceDate, setChangesSinceDate] = useState('');
+    const [watermarks, setWatermarks] = useState<ExportWatermark[]>([]);
+    const [uploadProgress, setUploadProgress] = useState<ExportProgress | null>(null);
+    const [delivery, setDelivery] = useState<(HttpDestinationResponse & { url: string; filename: string }) | null>(
+        null,
+    );
+    const [now, setNow] = useState(() => new Date());
+    // Set by the refresh button, so the next collection load drops the cached listings first
+    const isRefreshRequestedRef = useRef(false);
 
     // Get configuration from block settings
     const libraryId = blockSettings.libraryId;
     const bearerToken = blockSettings.bearerToken;
+    // Blocks configured before the Authentication setting existed keep using their token
+    const authMode = blockSettings.authMode || (bearerToken ? 'token' : 'session');
+    const isTokenAuthentication = authMode === 'token';
+    const isSignedIn = appBridge.context('isAuthenticated').get();
+    // Without a token there is nothing to connect to, so the block shows the sample library instead of an error
+    const isDemoMode = Boolean(blockSettings.demoMode) || (isTokenAuthentication && !bearerToken);
+    const authentication = useMemo<GraphQLAuthentication>(
+        () =>
+            isTokenAuthentication
+                ? { type: 'token', token: bearerToken }
+                : { type: 'session', request: requestWithSession },
+        [isTokenAuthentication, bearerToken],
+    );
+    const cacheTtlMinutes = Number.parseInt(blockSettings.cacheTtlMinutes ?? '', 10);
+    const cacheTtlMs = (Number.isNaN(cacheTtlMinutes) ? DEFAULT_CACHE_TTL_MINUTES : cacheTtlMinutes) * 60_000;
+    const multiValueSeparator = MULTI_VALUE_SEPARATORS[blockSettings.multiValueSeparator ?? ''];
+    const serviceOptions: FrontifyServiceOptions = {
+        batchSize: Number.parseInt(blockSettings.batchSize ?? '', 10) || undefined,
+        maxConcurrentRequests: Number.parseInt(blockSettings.maxConcurrentRequests ?? '', 10) || undefined,
+        multiValueSeparator,
+        csvDialect: {
+            delimiter: CSV_DELIMITERS[blockSettings.csvDelimiter ?? ''] ?? DEFAULT_CSV_DIALECT.delimiter,
+            quoteAll: blockSettings.csvQuoteAll ?? DEFAULT_CSV_DIALECT.quoteAll,
+            lineEnding: blockSettings.csvLineEnding === 'crlf' ? '\r\n' : '\n',
+            bom: blockSettings.csvBom ?? DEFAULT_CSV_DIALECT.bom,
+            neutralizeFormulas: blockSettings.csvFormulaProtection ?? DEFAULT_CSV_DIALECT.neutralizeFormulas,
+        },
+    };
+    const serviceRef = useRef<{ key: string; service: FrontifyService } | null>(null);
     
+    const { profiles: exportProfiles, errors: exportProfileErrors } = useMemo(
+        () => parseExportProfiles(blockSettings.exportProfiles),
+        [blockSettings.exportProfiles],
+    );
+    const selectedProfile = exportProfiles.find((profile) => profile.name === selectedProfileName) ?? null;
+
     // Get domain from the current window location (block runs within Frontify)
     const domain = typeof window !== 'undefined' ? window.location.hostname : '';
 
@@ -41,9 +262,20 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
     };
 
     const primaryHoverColor = getPrimaryHoverColor();
+    const theme: BlockTheme = { primaryColor, primaryHoverColor, textColor, borderColor };
 
     // Check if configuration is complete
-    const isConfigured = libraryId && bearerToken;
+    const isConfigured = isDemoMode || (libraryId && (isTokenAuthentication ? bearerToken : isSignedIn));
+
+    // Store the authentication a block without the setting falls back to, so the settings panel shows it and no
+    // later default can switch the block away from its token
+    useEffect(() => {
+        if (isEditing && !blockSettings.authMode) {
+            setBlockSettings({ authMode }).catch((error_: unknown) =>
+                console.warn('Could not store the authentication setting:', error_),
+            );
+        }
+    }, [isEditing, blockSettings.authMode, authMode, setBlockSettings]);
 
     useEffect(() => {
         const loadCollections = async () => {
@@ -61,7 +293,14 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                 console.log('Domain:', domain);
                 console.log('Library ID:', libraryId);
 
-                const service = new FrontifyService(domain, bearerToken, libraryId);
+                const dataSource = createDataSource(isDemoMode, domain, authentication, libraryId, cacheTtlMs, () =>
+                    getCacheCredential(appBridge, authentication),
+                );
+                if (isRefreshRequestedRef.current && dataSource instanceof CachedDataSource) {
+                    await dataSource.invalidateListings();
+                }
+                isRefreshRequestedRef.current = false;
+                const service = new FrontifyService(dataSource);
 
                 console.log('Fetching collections from Frontify library...');
                 const allCollections = await service.fetchAllCollections();
@@ -72,6 +311,8 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                 }
 
                 setCollections(allCollections);
+                setCollectionsCachedAt(dataSource instanceof CachedDataSource ? dataSource.collectionsFetchedAt : null);
+                setNow(new Date());
 
                 if (allCollections.length === 0) {
                     setError(
@@ -82,53 +323,541 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                 console.log('=== END DEBUG INFO ===');
             } catch (err) {
                 console.error('Error loading collections:', err);
-                setError(
-                    err instanceof Error
-                        ? `Failed to load collections: ${err.message}`
-                        : 'Failed to load collections from Frontify. Please check your configuration.'
-                );
+                setError(`Failed to load collections: ${getErrorGuidance(err)}`);
             } finally {
                 setLoading(false);
             }
         };
 
         loadCollections();
-    }, [domain, libraryId, bearerToken, isConfigured]);
+    }, [appBridge, domain, libraryId, authentication, isConfigured, isDemoMode, cacheTtlMs, refreshCount]);
 
-    const handleExport = async () => {
-        if (!selectedCollectionId || !isConfigured) return;
+    // Keep "cached N minutes ago" current
+    useEffect(() => {
+        if (!collectionsCachedAt) {
+            return;
+        }
+        const interval = setInterval(() => setNow(new Date()), 60_000);
+        return () => clearInterval(interval);
+    }, [collectionsCachedAt]);
 
-        const collection = collections.find((c) => c.id === selectedCollectionId);
-        if (!collection) return;
+    const selectedCollections = collections.filter((c) => selectedCollectionIds.includes(c.id));
+    const isZipExport = !exportEntireLibrary && selectedCollections.length > 1 && multiCollectionMode === 'zip';
+    // Exports are recorded per collection and for the library; selections of several collections aren't
+    const watermarkScope = exportEntireLibrary
+        ? LIBRARY_WATERMARK_SCOPE
+        : selectedCollections.length === 1
+          ? selectedCollections[0].id
+          : null;
+    const watermarkLibraryId = isDemoMode ? 'demo' : libraryId;
 
-        setIsExporting(true);
-        setError(null);
+    useEffect(() => {
+        setWatermarks(watermarkScope ? loadExportWatermarks(watermarkLibraryId, watermarkScope) : []);
+        setChangesSince(CHANGES_SINCE_ALL);
+    }, [watermarkLibraryId, watermarkScope]);
+
+    const isBusy =
+        isExporting ||
+        isLoadingPreview ||
+        isCreatingReport ||
+        isLoadingExpiry ||
+        isCreatingPackage ||
+        isComparingSnapshot;
+
+    // Loaded previews, reports, expiry dates, package results and diffs only match the selection they were loaded for
+    useEffect(() => {
+        setPreview(null);
+        setPreviewView(DEFAULT_PREVIEW_VIEW);
+        setReport(null);
+        setExpiryOverview(null);
+        setPackageResult(null);
+        setSnapshotDiff(null);
+    }, [selectedCollectionIds, exportEntireLibrary, refreshCount]);
+
+    const previewColumns = useMemo(
+        () =>
+            preview && selectedProfile && selectedProfile.columns.length > 0
+                ? selectedProfile.columns.map((column) => ({
+                      ...column,
+                      key: resolveColumnKey(column.key, preview.columns),
+                  }))
+                : (preview?.columns ?? []),
+        [preview, selectedProfile],
+    );
+    const visiblePreviewRows = useMemo(
+        () =>
+            preview
+                ? getVisiblePreviewRows(
+                      preview.rows.filter((row) =>
+                          matchesExportFilter(row.data, exportFilter, preview.columns, multiValueSeparator),
+                      ),
+                      previewColumns,
+                      previewView,
+                  )
+                : [],
+        [preview, previewColumns, previewView, exportFilter, multiValueSeparator],
+    );
+    const filterFieldKeys = useMemo(
+        () => [
+            ...new Set([
+                ...STANDARD_COLUMN_KEYS,
+                'collection',
+                ...(preview?.columns ?? []).map((column) => column.label),
+            ]),
+        ],
+        [preview],
+    );
+
+    /**
+     * Reload the collections and, on the next preview or export, the asset listings from Frontify.
+     * Cached asset metadata is kept for assets not modified since.
+     */
+    const refreshCollections = () => {
+        isRefreshRequestedRef.current = true;
+        setRefreshCount((count) => count + 1);
+    };
+
+    const selectProfile = (profileName: string) => {
+        setSelectedProfileName(profileName);
+        setExportFilter(exportProfiles.find((profile) => profile.name === profileName)?.filter ?? EMPTY_EXPORT_FILTER);
+    };
+
+    /**
+     * Store the current filter in the "Export Profiles" setting, on the selected profile or as a new profile
+     */
+    const saveFilterToProfile = async (profileName: string) => {
+        const name = profileName.trim();
+        if (!name) {
+            return;
+        }
 
         try {
-            console.log(`Exporting collection: ${collection.name} (${collection.id})`);
+            await setBlockSettings({
+                exportProfiles: setProfileFilter(blockSettings.exportProfiles, name, exportFilter),
+            });
+            setSelectedProfileName(name);
+            setNewProfileName('');
+        } catch (error_) {
+            console.error('Error saving export profile:', error_);
+            setError(`Failed to save the filter to profile "${name}"`);
+        }
+    };
 
-            const service = new FrontifyService(domain, bearerToken, libraryId);
-            const assets = await service.fetchAllCollectionAssets(collection.id);
+    /**
+     * The service for the current configuration. It is kept between actions, so exporting previewed assets
+     * serializes their custom metadata with the definitions loaded for the preview.
+     */
+    const createService = () => {
+        const key = JSON.stringify([isDemoMode, domain, authentication, libraryId, cacheTtlMs, serviceOptions]);
+        if (serviceRef.current?.key !== key) {
+            const dataSource = createDataSource(
+                isDemoMode,
+                domain,
+                authentication,
+                libraryId,
+                cacheTtlMs,
+                () => getCacheCredential(appBridge, authentication),
+                {
+                    onPartialData: (partialError: PartialDataError) =>
+                        setWarnings((previous) => [...previous, partialError.message]),
+                },
+            );
+            serviceRef.current = {
+                key,
+                service: new FrontifyService(dataSource, {
+                    ...serviceOptions,
+                    onWarning: (message) =>
+                        setWarnings((previous) => (previous.includes(message) ? previous : [...previous, message])),
+                }),
+            };
+        }
+        return serviceRef.current.service;
+    };
+
+    /**
+     * Fetch the assets of the current selection: the entire library, one collection or several collections
+     */
+    const loadSelectedAssets = async (
+        service: FrontifyService,
+    ): Promise<{ result: CollectionAssetsResult; source: ExportSource }> => {
+        if (exportEntireLibrary) {
+            console.log('Loading entire library');
+
+            const result = await service.fetchLibraryAssets(collections, setExportProgress);
+            console.log(`Fetched ${result.assets.length} assets from library`);
+
+            if (result.assets.length === 0) {
+                throw new Error('The library has no assets to export');
+            }
+
+            return { result, source: service.createMergedExportSource('library', result.groups, 'entire_library') };
+        }
 
+        if (selectedCollections.length === 1) {
+            const [collection] = selectedCollections;
+            console.log(`Loading collection: ${collection.name} (${collection.id})`);
+
+            const assets = await service.fetchAllCollectionAssets(collection.id, setExportProgress);
             console.log(`Fetched ${assets.length} assets from collection`);
 
             if (assets.length === 0) {
                 throw new Error('Collection has no assets to export');
             }
 
-            service.exportToCSV(assets, collection.name);
+            const exportCollection = { id: collection.id, name: collection.name };
+            return {
+                result: {
+                    assets,
+                    groups: [{ collection: exportCollection, assetIds: assets.map((asset) => asset.id) }],
+                },
+                source: { scope: 'collection', name: collection.name, collections: [exportCollection] },
+            };
+        }
+
+        console.log(`Loading ${selectedCollections.length} collections`);
+
+        const result = await service.fetchMultipleCollectionAssets(selectedCollections, setExportProgress);
+        console.log(`Fetched ${result.assets.length} unique assets from ${selectedCollections.length} collections`);
+
+        if (result.assets.length === 0) {
+            throw new Error('The selected collections have no assets to export');
+        }
+
+        return {
+            result,
+            source: service.createMergedExportSource(
+                'collections',
+                result.groups,
+                `${selectedCollections.length}_collections`,
+            ),
+        };
+    };
+
+    const handlePreview = async () => {
+        if ((!exportEntireLibrary && selectedCollections.length === 0) || !isConfigured) {
+            return;
+        }
+
+        setIsLoadingPreview(true);
+        setExportProgress(null);
+        setWarnings([]);
+        setError(null);
+
+        try {
+            const service = createService();
+            const { result, source } = await loadSelectedAssets(service);
+            const exportData = service.prepareAssetsForExport(result.assets, source.assetCollections);
+
+            setPreview({
+                result,
+                source,
+                rows: result.assets.map((asset, index) => ({ asset, data: exportData[index] })),
+                columns: getDefaultColumns(exportData, service.getCustomMetadataColumns(result.assets)),
+            });
+            setPreviewView(DEFAULT_PREVIEW_VIEW);
+        } catch (error_) {
+            console.error('Error loading preview:', error_);
+            setError(`Failed to load preview: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsLoadingPreview(false);
+            setExportProgress(null);
+        }
+    };
+
+    /**
+     * Assets for the report and expiry views: like the export, a loaded preview limits them to the rows the grid shows
+     */
+    const loadFilteredAssets = async (
+        service: FrontifyService,
+    ): Promise<{ assets: FrontifyAsset[]; source: ExportSource; selectedAssets: FrontifyAsset[] }> => {
+        let assets: FrontifyAsset[];
+        let source: ExportSource;
+        let selectedAssets: FrontifyAsset[];
+        if (preview) {
+            assets = visiblePreviewRows.map((row) => row.asset);
+            source = preview.source;
+            selectedAssets = preview.result.assets;
+        } else {
+            setWarnings([]);
+            const loaded = await loadSelectedAssets(service);
+            assets = service.filterAssets(loaded.result.assets, exportFilter, loaded.source.assetCollections);
+            source = loaded.source;
+            selectedAssets = loaded.result.assets;
+        }
+
+        if (assets.length === 0) {
+            throw new Error('No assets match the current filter');
+        }
+
+        return { assets, source, selectedAssets };
+    };
+
+    const handleCreateReport = async () => {
+        if ((!exportEntireLibrary && selectedCollections.length === 0) || !isConfigured) {
+            return;
+        }
+
+        setIsCreatingReport(true);
+        setExportProgress(null);
+        setError(null);
+
+        try {
+            const service = createService();
+            const { assets, source } = await loadFilteredAssets(service);
+            setReport(await service.createMetadataReport(assets, source));
+        } catch (error_) {
+            console.error('Error creating metadata report:', error_);
+            setError(`Failed to create report: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsCreatingReport(false);
+            setExportProgress(null);
+        }
+    };
+
+    const handleDownloadReport = () => {
+        if (report) {
+            const service = createService();
+            downloadExportFile(service.createMetadataReportFile(report));
+        }
+    };
+
+    const handleShowExpiry = async () => {
+        if ((!exportEntireLibrary && selectedCollections.length === 0) || !isConfigured) {
+            return;
+        }
+
+        setIsLoadingExpiry(true);
+        setExportProgress(null);
+        setError(null);
+
+        try {
+            const service = createService();
+            const { assets, source } = await loadFilteredAssets(service);
+            setExpiryOverview(service.createExpiryOverview(assets, source, blockSettings.assetLinkTemplate));
+        } catch (error_) {
+            console.error('Error loading expiry dates:', error_);
+            setError(`Failed to load expiry dates: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsLoadingExpiry(false);
+            setExportProgress(null);
+        }
+    };
+
+    const handleDownloadCalendar = () => {
+        if (expiryOverview) {
+            const service = createService();
+            downloadExportFile(service.createExpiryCalendarFile(expiryOverview));
+        }
+    };
+
+    const handleDownloadPackage = async () => {
+        if ((!exportEntireLibrary && selectedCollections.length === 0) || !isConfigured) {
+            return;
+        }
+
+        setIsCreatingPackage(true);
+        setExportProgress(null);
+        setPackageResult(null);
+        setError(null);
+
+        try {
+            const service = createService();
+            // Packages use the same assets as the export: the preview's visible rows, or the filtered selection
+            const { assets, source } = await loadFilteredAssets(service);
+            const { file, fileCount, failures } = await service.createAssetPackage(
+                assets,
+                source,
+                { profile: selectedProfile, variant: packageVariant, filenamePattern: packageFilenamePattern },
+                setExportProgress,
+            );
+
+            if (fileCount === 0) {
+                setPackageResult({ fileCount, failures });
+                throw new Error('None of the asset files could be downloaded, so no package was saved');
+            }
+
+            downloadExportFile(file);
+            setPackageResult({ fileCount, failures });
+        } catch (error_) {
+            console.error('Error creating download package:', error_);
+            setError(`Failed to create the package: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsCreatingPackage(false);
+            setExportProgress(null);
+        }
+    };
+
+    const handleCompareSnapshot = async (file: File) => {
+        if ((!exportEntireLibrary && selectedCollections.length === 0) || !isConfigured) {
+            return;
+        }
+
+        setIsComparingSnapshot(true);
+        setExportProgress(null);
+        setSnapshotDiff(null);
+        setError(null);
+
+        try {
+            const data = new Uint8Array(await file.arrayBuffer());
+            const service = createService();
+            const { assets, source, selectedAssets } = await loadFilteredAssets(service);
+
+            const snapshot = service.readSnapshotFile(file.name, data, selectedProfile);
+            if (snapshot.rows.size === 0) {
+                throw new Error(`${file.name} contains no assets`);
+            }
+            setSnapshotDiff(service.createSnapshotDiff(assets, source, snapshot, selectedAssets));
+        } catch (error_) {
+            console.error('Error comparing with previous export:', error_);
+            setError(`Failed to compare with ${file.name}: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsComparingSnapshot(false);
+            setExportProgress(null);
+        }
+    };
+
+    const handleDownloadChangeReport = () => {
+        if (snapshotDiff) {
+            const service = createService();
+            downloadExportFile(service.createSnapshotDiffFile(snapshotDiff));
+        }
+    };
+
+    /**
+     * Narrow the loaded assets to those changed since the selected export or date. Changes are found among
+     * `scopeAssets`, every asset in the collection or library, so assets hidden by the preview search don't count
+     * as removed.
+     */
+    const selectChangesSince = (
+        loaded: { result: CollectionAssetsResult; source: ExportSource },
+        scopeAssets: FrontifyAsset[],
+    ): { result: CollectionAssetsResult; source: ExportSource; changes: ExportChanges } => {
+        let selection: ReturnType<typeof selectChangedAssets>;
+        if (changesSince === CHANGES_SINCE_DATE) {
+            if (!changesSinceDate) {
+                throw new Error('Choose the date to export the changes since');
+            }
+            selection = selectChangedAssets(
+                scopeAssets,
+                changesSinceDate,
+                findBaselineWatermark(watermarks, changesSinceDate),
+            );
+        } else {
+            const baseline = watermarks.find((watermark) => watermark.exportedAt === changesSince);
+            if (!baseline) {
+                throw new Error('The selected export is no longer recorded');
+            }
+            selection = selectChangedAssets(scopeAssets, getWatermarkCutoff(baseline), baseline);
+        }
+
+        if (selection.changes.removedAssetIds === null) {
+            setWarnings((previous) => [
+                ...previous,
+                'No export was recorded before that date, so the export cannot list the assets removed since.',
+            ]);
+        }
+
+        const changedIds = new Set(selection.assets.map((asset) => asset.id));
+        return {
+            result: restrictToAssets(
+                loaded.result,
+                loaded.result.assets.filter((asset) => changedIds.has(asset.id)),
+            ),
+            source: loaded.source,
+            changes: selection.changes,
+        };
+    };
+
+    const handleExport = async () => {
+        if ((!exportEntireLibrary && selectedCollections.length === 0) || !isConfigured) {
+            return;
+        }
+
+        setIsExporting(true);
+        setExportProgress(null);
+        setError(null);
+        setDelivery(null);
+
+        try {
+            const destination = getHttpDestination(blockSettings);
+            const service = createService();
+            let changes: ExportChanges | null = null;
+
+            // With a preview loaded, export exactly the rows the grid shows, in grid order
+            let loaded: { result: CollectionAssetsResult; source: ExportSource };
+            if (preview) {
+                if (visiblePreviewRows.length === 0) {
+                    throw new Error('No assets match the preview search');
+                }
+                loaded = {
+                    result: restrictToAssets(
+                        preview.result,
+                        visiblePreviewRows.map((row) => row.asset),
+                    ),
+                    source: preview.source,
+                };
+            } else {
+                setWarnings([]);
+                loaded = await loadSelectedAssets(service);
+            }
+
+            const scopeAssets = preview ? preview.result.assets : loaded.result.assets;
+            if (watermarkScope && changesSince !== CHANGES_SINCE_ALL) {
+                ({ changes, ...loaded } = selectChangesSince(loaded, scopeAssets));
+            }
+
+            const exportOptions = {
+                profile: selectedProfile,
+                sheetPerAssetType,
+                filter: exportFilter,
+                rowLayout,
+                explodeColumn,
+                changes,
+            };
+            const file = isZipExport
+                ? service.createMultiCollectionExportFile(exportFormat, loaded.result, 'zip', exportOptions)
+                : service.createExportFile(exportFormat, loaded.result.assets, loaded.source, exportOptions);
+            if (destination) {
+                const response = await uploadExportFile(file, destination, setUploadProgress);
+                setDelivery({ ...response, url: destination.url, filename: file.filename });
+            } else {
+                downloadExportFile(file);
+            }
+
+            console.log(`${EXPORT_FORMAT_LABELS[exportFormat]} export completed successfully`);
 
-            console.log('CSV export completed successfully');
+            // Only an export of every asset in scope, or of every change since one, is a baseline for the next
+            const isCompleteExport =
+                (!preview || visiblePreviewRows.length === preview.rows.length) && !isFilterActive(exportFilter);
+            if (watermarkScope && isCompleteExport) {
+                saveExportWatermark(watermarkLibraryId, createExportWatermark(watermarkScope, scopeAssets));
+                setWatermarks(loadExportWatermarks(watermarkLibraryId, watermarkScope));
+            }
         } catch (err) {
             console.error('Error exporting collection:', err);
-            setError(
-                err instanceof Error
-                    ? `Failed to export: ${err.message}`
-                    : 'Failed to export collection. Please try again.'
-            );
+            setError(`Failed to export: ${getErrorGuidance(err)}`);
         } finally {
             setIsExporting(false);
+            setExportProgress(null);
+            setUploadProgress(null);
+        }
+    };
+
+    const getExportButtonLabel = () => {
+        const formatLabel = isZipExport ? 'ZIP' : EXPORT_FORMAT_LABELS[exportFormat];
+        if (watermarkScope && changesSince !== CHANGES_SINCE_ALL) {
+            return `Export Changes as ${formatLabel}`;
+        }
+        if (preview && visiblePreviewRows.length !== preview.rows.length) {
+            return `Export ${visiblePreviewRows.length.toLocaleString()} of ${preview.rows.length.toLocaleString()} Assets as ${formatLabel}`;
+        }
+        if (exportEntireLibrary) {
+            return `Export Library as ${formatLabel}`;
         }
+        if (selectedCollections.length === 1) {
+            return `Export Collection as ${formatLabel}`;
+        }
+        return `Export ${selectedCollections.length} Collections as ${formatLabel}`;
     };
 
     const sortedCollections = [...collections].sort((a, b) => {
@@ -158,10 +887,12 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                     }}
                 >
                     <h3 className="tw-font-semibold tw-mb-2" style={{ color: '#92400e' }}>
-                        Configuration Required
+                        {libraryId ? 'Sign In Required' : 'Configuration Required'}
                     </h3>
                     <p className="tw-mb-4" style={{ color: '#b45309' }}>
-                        Please configure the following in the block settings:
+                        {libraryId
+                            ? 'This block reads your library as the signed-in Frontify user. Sign in to Frontify to export collection metadata.'
+                            : 'Please configure the following in the block settings:'}
                     </p>
                     <div className="tw-text-sm tw-space-y-4" style={{ color: '#92400e' }}>
                         {!libraryId && (
@@ -179,17 +910,6 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                                 </ol>
                             </div>
                         )}
-                        {!bearerToken && (
-                            <div>
-                                <p className="tw-font-semibold tw-mb-1">API Bearer Token:</p>
-                                <ol className="tw-list-decimal tw-list-inside tw-space-y-1 tw-ml-2">
-                                    <li>Go to your Frontify Account Settings</li>
-                                    <li>Navigate to Developer &gt; API Tokens</li>
-                                    <li>Generate a new token with appropriate permissions</li>
-                                    <li>Copy the token and paste it in the block settings</li>
-                                </ol>
-                            </div>
-                        )}
                     </div>
                     {isEditing && (
                         <p className="tw-mt-4 tw-text-sm tw-italic" style={{ color: '#92400e' }}>
@@ -208,11 +928,82 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                     Collection Metadata Export
                 </h2>
                 <p style={{ color: textColor, opacity: 0.8 }}>
-                    Export asset metadata from your Frontify collections as CSV files, including preview URLs and
-                    custom metadata fields.
+                    Export asset metadata from your Frontify collections as CSV or Excel files, including preview URLs
+                    and custom metadata fields.
                 </p>
             </div>
 
+            {isDemoMode && (
+                <div
+                    className="tw-border tw-rounded-lg tw-p-4 tw-mb-6"
+                    style={{
+                        backgroundColor: 'rgba(237, 233, 254, 0.5)',
+                        borderColor: 'rgba(167, 139, 250, 0.5)',
+                    }}
+                >
+                    <h3 className="tw-font-semibold tw-mb-1" style={{ color: '#5b21b6' }}>
+                        Demo Mode: Sample Library
+                    </h3>
+                    <p className="tw-text-sm" style={{ color: '#6d28d9' }}>
+                        The collections and assets below are sample data bundled with this block, not your Frontify
+                        library. Exports, reports and packages contain sample data, and imports only change the sample
+                        library until the page is reloaded.
+                    </p>
+                    {isEditing && (
+                        <p className="tw-mt-2 tw-text-sm tw-italic" style={{ color: '#5b21b6' }}>
+                            {blockSettings.demoMode
+                                ? 'Turn off Demo Mode in the block settings to export your own library.'
+                                : 'Enter an API Bearer Token, or set Authentication to "Signed-in user", in the block settings to export your own library.'}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Block settings reach every viewer's browser, so a stored token is readable by all of them */}
+            {isEditing && Boolean(bearerToken) && (
+                <div
+                    className="tw-border tw-rounded-lg tw-p-4 tw-mb-6"
+                    style={{
+                        backgroundColor: 'rgba(254, 243, 199, 0.5)',
+                        borderColor: 'rgba(251, 191, 36, 0.5)',
+                    }}
+                >
+                    <h3 className="tw-font-semibold tw-mb-1" style={{ color: '#92400e' }}>
+                        Viewers Can Read the API Token
+                    </h3>
+                    <p className="tw-text-sm" style={{ color: '#b45309' }}>
+                        An API Bearer Token is stored in the block settings, which are sent to the browser of everyone
+                        viewing this guideline, so any viewer can read the token and use its scopes. If it has the
+                        basic:write scope, they can edit or delete assets with it. Set Authentication to &quot;Signed-in
+                        user&quot; and remove the token, or replace it with one that only has the basic:read scope.
+                        Metadata imports need write access; with &quot;Signed-in user&quot; they run with your own
+                        permissions.
+                    </p>
+                </div>
+            )}
+
+            {isEditing && hasDestinationCredentials(blockSettings) && (
+                <div
+                    className="tw-border tw-rounded-lg tw-p-4 tw-mb-6"
+                    style={{
+                        backgroundColor: 'rgba(254, 243, 199, 0.5)',
+                        borderColor: 'rgba(251, 191, 36, 0.5)',
+                    }}
+                >
+                    <h3 className="tw-font-semibold tw-mb-1" style={{ color: '#92400e' }}>
+                        Viewers Can Read the Destination Credentials
+                    </h3>
+                    <p className="tw-text-sm" style={{ color: '#b45309' }}>
+                        The export destination&apos;s {blockSettings.destinationAuth === 'basic' ? 'password' : 'token'}{' '}
+                        is stored in the block settings, which are sent to the browser of everyone viewing this
+                        guideline. Anyone who can view it can send requests to the destination with these credentials.
+                        Prefer a proxy that adds the credentials on your server, or a signed upload URL with
+                        Authentication set to &quot;None&quot;; otherwise use credentials that only allow uploads to
+                        this endpoint.
+                    </p>
+                </div>
+            )}
+
             {loading && (
                 <div className="tw-flex tw-flex-col tw-items-center tw-justify-center tw-bg-gray-50 tw-rounded-lg tw-py-16">
                     <div
@@ -238,43 +1029,80 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                 </div>
             )}
 
+            {isEditing && exportProfileErrors.length > 0 && (
+                <div
+                    className="tw-border tw-rounded-lg tw-p-4 tw-mb-6"
+                    style={{
+                        backgroundColor: 'rgba(254, 243, 199, 0.5)',
+                        borderColor: 'rgba(251, 191, 36, 0.5)',
+                    }}
+                >
+                    <h3 className="tw-font-semibold tw-mb-2" style={{ color: '#92400e' }}>
+                        Export Profiles need attention
+                    </h3>
+                    <ul className="tw-list-disc tw-list-inside tw-text-sm tw-space-y-1" style={{ color: '#92400e' }}>
+                        {exportProfileErrors.map((profileError) => (
+                            <li key={profileError}>{profileError}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {warnings.length > 0 && (
+                <div
+                    className="tw-border tw-rounded-lg tw-p-4 tw-mb-6"
+                    style={{
+                        backgroundColor: 'rgba(254, 243, 199, 0.5)',
+                        borderColor: 'rgba(251, 191, 36, 0.5)',
+                    }}
+                >
+                    <h3 className="tw-font-semibold tw-mb-2" style={{ color: '#92400e' }}>
+                        Some data could not be loaded
+                    </h3>
+                    <p className="tw-mb-2" style={{ color: '#b45309' }}>
+                        The export contains everything Frontify returned. The following errors were reported:
+                    </p>
+                    <ul className="tw-list-disc tw-list-inside tw-text-sm tw-space-y-1" style={{ color: '#92400e' }}>
+                        {warnings.map((warning, index) => (
+                            <li key={index}>{warning}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             {!loading && !error && collections.length > 0 && (
                 <div className="tw-space-y-6">
-                    {/* Dropdown selector */}
-                    <div>
-                        <label className="tw-block tw-font-semibold tw-mb-2" style={{ color: textColor }}>
-                            Select a Collection
-                        </label>
-                        <select
-                            value={selectedCollectionId}
-                            onChange={(e) => setSelectedCollectionId(e.target.value)}
-                            className="tw-w-full tw-px-4 tw-py-3 tw-rounded-lg tw-text-base tw-transition-all focus:tw-outline-none focus:tw-ring-2"
-                            style={{
-                                border: `2px solid ${borderColor}`,
-                                color: textColor,
-                            }}
-                            onFocus={(e) => {
-                                e.currentTarget.style.borderColor = primaryColor;
-                            }}
-                            onBlur={(e) => {
-                                e.currentTarget.style.borderColor = borderColor;
-                            }}
-                        >
-                            <option value="">-- Choose a collection --</option>
-                            {sortedCollections.map((collection) => (
-                                <option key={collection.id} value={collection.id}>
-                                    {collection.name} ({collection.assetCount}{' '}
-                                    {collection.assetCount === 1 ? 'asset' : 'assets'})
-                                </option>
-                            ))}
-                        </select>
-                    </div>
+                    {collectionsCachedAt && (
+                        <div className="tw-flex tw-items-center tw-gap-3 tw-text-sm" style={{ color: textColor }}>
+                            <span style={{ opacity: 0.8 }}>Cached {formatCacheAge(collectionsCachedAt, now)}</span>
+                            <button
+                                type="button"
+                                onClick={refreshCollections}
+                                disabled={isBusy}
+                                className="tw-underline"
+                                style={{ color: primaryColor, cursor: isBusy ? 'not-allowed' : 'pointer' }}
+                            >
+                                Refresh
+                            </button>
+                        </div>
+                    )}
+                    <CollectionPicker
+                        collections={sortedCollections}
+                        selectedIds={selectedCollectionIds}
+                        onChange={setSelectedCollectionIds}
+                        entireLibrary={exportEntireLibrary}
+                        onEntireLibraryChange={setExportEntireLibrary}
+                        showAssetCount={blockSettings.showAssetCount ?? true}
+                        theme={theme}
+                    />
 
                     {/* Collection details */}
-                    {selectedCollectionId &&
+                    {(exportEntireLibrary || selectedCollections.length > 0) &&
                         (() => {
-                            const selectedCollection = collections.find((c) => c.id === selectedCollectionId);
-                            if (!selectedCollection) return null;
+                            const totalAssetCount = selectedCollections.reduce(
+                                (total, collection) => total + collection.assetCount,
+                                0,
+                            );
 
                             return (
                                 <div
@@ -285,41 +1113,421 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                                     }}
                                 >
                                     <h3 className="tw-text-xl tw-font-bold tw-mb-4" style={{ color: textColor }}>
-                                        Collection Details
+                                        {!exportEntireLibrary && selectedCollections.length === 1
+                                            ? 'Collection Details'
+                                            : 'Export Details'}
                                     </h3>
 
                                     <div className="tw-space-y-3 tw-mb-6">
+                                        {exportEntireLibrary ? (
+                                            <div>
+                                                <span className="tw-font-semibold" style={{ color: textColor }}>
+                                                    Scope:{' '}
+                                                </span>
+                                                <span style={{ color: textColor, opacity: 0.8 }}>
+                                                    Entire library, including assets that are not in any collection. A
+                                                    collection column lists the collections each asset belongs to.
+                                                </span>
+                                            </div>
+                                        ) : (
+                                            <>
+                                                <div>
+                                                    <span className="tw-font-semibold" style={{ color: textColor }}>
+                                                        {selectedCollections.length === 1
+                                                            ? 'Name:'
+                                                            : 'Collections:'}{' '}
+                                                    </span>
+                                                    <span style={{ color: textColor, opacity: 0.8 }}>
+                                                        {selectedCollections
+                                                            .map((collection) => collection.name)
+                                                            .join(', ')}
+                                                    </span>
+                                                </div>
+
+                                                <div>
+                                                    <span className="tw-font-semibold" style={{ color: textColor }}>
+                                                        Total Assets:{' '}
+                                                    </span>
+                                                    <span style={{ color: textColor, opacity: 0.8 }}>
+                                                        {totalAssetCount}
+                                                    </span>
+                                                </div>
+                                            </>
+                                        )}
+
+                                        {!exportEntireLibrary && selectedCollections.length > 1 && (
+                                            <fieldset>
+                                                <legend className="tw-font-semibold" style={{ color: textColor }}>
+                                                    Multiple Collections:
+                                                </legend>
+                                                <label
+                                                    className="tw-flex tw-items-center tw-gap-2 tw-mt-1 tw-text-sm"
+                                                    style={{ color: textColor }}
+                                                >
+                                                    <input
+                                                        type="radio"
+                                                        name="multi-collection-mode"
+                                                        checked={multiCollectionMode === 'merged'}
+                                                        onChange={() => setMultiCollectionMode('merged')}
+                                                    />
+                                                    One merged file with a collection column (each asset once)
+                                                </label>
+                                                <label
+                                                    className="tw-flex tw-items-center tw-gap-2 tw-mt-1 tw-text-sm"
+                                                    style={{ color: textColor }}
+                                                >
+                                                    <input
+                                                        type="radio"
+                                                        name="multi-collection-mode"
+                                                        checked={multiCollectionMode === 'zip'}
+                                                        onChange={() => setMultiCollectionMode('zip')}
+                                                    />
+                                                    ZIP archive with one file per collection and a summary manifest
+                                                </label>
+                                            </fieldset>
+                                        )}
+
                                         <div>
-                                            <span className="tw-font-semibold" style={{ color: textColor }}>
-                                                Name:{' '}
-                                            </span>
-                                            <span style={{ color: textColor, opacity: 0.8 }}>
-                                                {selectedCollection.name}
-                                            </span>
+                                            <label
+                                                htmlFor="export-format"
+                                                className="tw-font-semibold"
+                                                style={{ color: textColor }}
+                                            >
+                                                Export Format:{' '}
+                                            </label>
+                                            <select
+                                                id="export-format"
+                                                value={exportFormat}
+                                                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                                                className="tw-px-2 tw-py-1 tw-rounded tw-text-sm"
+                                                style={{ border: `1px solid ${borderColor}`, color: textColor }}
+                                            >
+                                                {Object.entries(EXPORT_FORMAT_LABELS).map(([format, label]) => (
+                                                    <option key={format} value={format}>
+                                                        {label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <p
+                                                className="tw-mt-1 tw-text-sm"
+                                                style={{ color: textColor, opacity: 0.8 }}
+                                            >
+                                                {EXPORT_FORMAT_DESCRIPTIONS[exportFormat]}
+                                            </p>
+                                            {exportFormat === 'xlsx' && (
+                                                <label
+                                                    className="tw-flex tw-items-center tw-gap-2 tw-mt-2 tw-text-sm"
+                                                    style={{ color: textColor }}
+                                                >
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={sheetPerAssetType}
+                                                        onChange={(e) => setSheetPerAssetType(e.target.checked)}
+                                                    />
+                                                    Separate sheets for Image, Video, Document and Audio assets
+                                                </label>
+                                            )}
+                                            {(exportFormat === 'csv' || exportFormat === 'xlsx') && (
+                                                <div className="tw-flex tw-flex-wrap tw-items-center tw-gap-2 tw-mt-2 tw-text-sm">
+                                                    <label htmlFor="row-layout" style={{ color: textColor }}>
+                                                        Rows:
+                                                    </label>
+                                                    <select
+                                                        id="row-layout"
+                                                        value={rowLayout}
+                                                        onChange={(e) => setRowLayout(e.target.value as RowLayout)}
+                                                        className="tw-px-2 tw-py-1 tw-rounded"
+                                                        style={{ border: `1px solid ${borderColor}`, color: textColor }}
+                                                    >
+                                                        {(Object.keys(ROW_LAYOUT_LABELS) as RowLayout[]).map(
+                                                            (layout) => (
+                                                                <option key={layout} value={layout}>
+                                                                    {ROW_LAYOUT_LABELS[layout]}
+                                                                </option>
+                                                            ),
+                                                        )}
+                                                    </select>
+                                                    {rowLayout === 'explode' && (
+                                                        <>
+                                                            <input
+                                                                type="text"
+                                                                aria-label="Field with one row per value"
+                                                                list="explode-field-keys"
+                                                                value={explodeColumn}
+                                                                onChange={(e) => setExplodeColumn(e.target.value)}
+                                                                placeholder="tags"
+                                                                className="tw-px-2 tw-py-1 tw-rounded"
+                                                                style={{
+                                                                    border: `1px solid ${borderColor}`,
+                                                                    color: textColor,
+                                                                }}
+                                                            />
+                                                            <datalist id="explode-field-keys">
+                                                                {filterFieldKeys.map((key) => (
+                                                                    <option key={key} value={key} />
+                                                                ))}
+                                                            </datalist>
+                                                        </>
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
 
+                                        {watermarkScope && (
+                                            <ChangesSinceSelector
+                                                watermarks={watermarks}
+                                                value={changesSince}
+                                                onChange={setChangesSince}
+                                                date={changesSinceDate}
+                                                onDateChange={setChangesSinceDate}
+                                                theme={theme}
+                                            />
+                                        )}
+
+                                        {exportProfiles.length > 0 && (
+                                            <div>
+                                                <label
+                                                    htmlFor="export-profile"
+                                                    className="tw-font-semibold"
+                                                    style={{ color: textColor }}
+                                                >
+                                                    Columns:{' '}
+                                                </label>
+                                                <select
+                                                    id="export-profile"
+                                                    value={selectedProfileName}
+                                                    onChange={(e) => selectProfile(e.target.value)}
+                                                    className="tw-px-2 tw-py-1 tw-rounded tw-text-sm"
+                                                    style={{ border: `1px solid ${borderColor}`, color: textColor }}
+                                                >
+                                                    <option value="">All columns</option>
+                                                    {exportProfiles.map((profile) => (
+                                                        <option key={profile.name} value={profile.name}>
+                                                            {profile.name}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <p
+                                                    className="tw-mt-1 tw-text-sm"
+                                                    style={{ color: textColor, opacity: 0.8 }}
+                                                >
+                                                    {exportFormat === 'json' || exportFormat === 'ndjson'
+                                                        ? 'Profile columns apply to CSV and Excel exports. JSON exports always contain every field.'
+                                                        : selectedProfile && selectedProfile.columns.length > 0
+                                                          ? selectedProfile.columns
+                                                                .map((column) => column.label)
+                                                                .join(', ')
+                                                          : 'Every available metadata field, in export order.'}
+                                                </p>
+                                            </div>
+                                        )}
+
                                         <div>
+                                            <FilterBuilder
+                                                filter={exportFilter}
+                                                onChange={setExportFilter}
+                                                fieldKeys={filterFieldKeys}
+                                                theme={theme}
+                                            />
+                                            {isEditing &&
+                                                exportFilter.conditions.length > 0 &&
+                                                (selectedProfile ? (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => saveFilterToProfile(selectedProfile.name)}
+                                                        className="tw-mt-2 tw-text-sm tw-underline"
+                                                        style={{ color: primaryColor }}
+                                                    >
+                                                        Save filter to profile &quot;{selectedProfile.name}&quot;
+                                                    </button>
+                                                ) : (
+                                                    <div className="tw-flex tw-items-center tw-gap-2 tw-mt-2 tw-text-sm">
+                                                        <input
+                                                            type="text"
+                                                            aria-label="New profile name"
+                                                            placeholder="Profile name"
+                                                            value={newProfileName}
+                                                            onChange={(e) => setNewProfileName(e.target.value)}
+                                                            className="tw-px-2 tw-py-1 tw-rounded"
+                                                            style={{
+                                                                border: `1px solid ${borderColor}`,
+                                                                color: textColor,
+                                                            }}
+                                                        />
+                                                        <button
+                                                            type="button"
+                                                            disabled={!newProfileName.trim()}
+                                                            onClick={() => saveFilterToProfile(newProfileName)}
+                                                            className="tw-underline"
+                                                            style={{ color: primaryColor }}
+                                                        >
+                                                            Save filter as new profile
+                                                        </button>
+                                                    </div>
+                                                ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="tw-mb-6">
+                                        <div className="tw-flex tw-items-center tw-justify-between tw-gap-4 tw-mb-2">
                                             <span className="tw-font-semibold" style={{ color: textColor }}>
-                                                Total Assets:{' '}
-                                            </span>
-                                            <span style={{ color: textColor, opacity: 0.8 }}>
-                                                {selectedCollection.assetCount}
+                                                Preview
                                             </span>
+                                            <button
+                                                type="button"
+                                                onClick={handlePreview}
+                                                disabled={isBusy}
+                                                className="tw-px-4 tw-py-2 tw-rounded tw-text-sm tw-font-semibold"
+                                                style={{
+                                                    border: `1px solid ${primaryColor}`,
+                                                    color: primaryColor,
+                                                    cursor: isBusy ? 'not-allowed' : 'pointer',
+                                                }}
+                                            >
+                                                {isLoadingPreview
+                                                    ? 'Loading preview...'
+                                                    : preview
+                                                      ? 'Reload Preview'
+                                                      : 'Load Preview'}
+                                            </button>
                                         </div>
+                                        {preview ? (
+                                            <AssetPreviewGrid
+                                                rows={visiblePreviewRows}
+                                                totalRowCount={preview.rows.length}
+                                                columns={previewColumns}
+                                                view={previewView}
+                                                onViewChange={setPreviewView}
+                                                theme={theme}
+                                            />
+                                        ) : (
+                                            <p className="tw-text-sm" style={{ color: textColor, opacity: 0.8 }}>
+                                                Load a preview to check the exported columns before downloading. Search
+                                                and sort the preview to export only the assets it shows, in that order.
+                                            </p>
+                                        )}
+                                    </div>
 
-                                        <div>
+                                    <div className="tw-mb-6">
+                                        <div className="tw-flex tw-items-center tw-justify-between tw-gap-4 tw-mb-2">
                                             <span className="tw-font-semibold" style={{ color: textColor }}>
-                                                Export Format:{' '}
+                                                Metadata Report
                                             </span>
-                                            <span style={{ color: textColor, opacity: 0.8 }}>
-                                                CSV (includes all metadata fields, preview URLs, and custom fields)
+                                            <button
+                                                type="button"
+                                                onClick={handleCreateReport}
+                                                disabled={isBusy}
+                                                className="tw-px-4 tw-py-2 tw-rounded tw-text-sm tw-font-semibold"
+                                                style={{
+                                                    border: `1px solid ${primaryColor}`,
+                                                    color: primaryColor,
+                                                    cursor: isBusy ? 'not-allowed' : 'pointer',
+                                                }}
+                                            >
+                                                {isCreatingReport
+                                                    ? 'Creating report...'
+                                                    : report
+                                                      ? 'Update Report'
+                                                      : 'Create Report'}
+                                            </button>
+                                        </div>
+                                        {report ? (
+                                            <MetadataReportView
+                                                report={report}
+                                                onDownload={handleDownloadReport}
+                                                theme={theme}
+                                            />
+                                        ) : (
+                                            <p className="tw-text-sm" style={{ color: textColor, opacity: 0.8 }}>
+                                                Check how complete the metadata is: the fill rate of every field and
+                                                custom metadata property, and assets with missing alternative text,
+                                                empty copyright notices, past expiry dates or duplicate titles.
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <div className="tw-mb-6">
+                                        <div className="tw-flex tw-items-center tw-justify-between tw-gap-4 tw-mb-2">
+                                            <span className="tw-font-semibold" style={{ color: textColor }}>
+                                                Expiry Dates
                                             </span>
+                                            <button
+                                                type="button"
+                                                onClick={handleShowExpiry}
+                                                disabled={isBusy}
+                                                className="tw-px-4 tw-py-2 tw-rounded tw-text-sm tw-font-semibold"
+                                                style={{
+                                                    border: `1px solid ${primaryColor}`,
+                                                    color: primaryColor,
+                                                    cursor: isBusy ? 'not-allowed' : 'pointer',
+                                                }}
+                                            >
+                                                {isLoadingExpiry
+                                                    ? 'Loading expiry dates...'
+                                                    : expiryOverview
+                                                      ? 'Reload Expiry Dates'
+                                                      : 'Show Expiry Dates'}
+                                            </button>
                                         </div>
+                                        {expiryOverview ? (
+                                            <ExpiryDashboard
+                                                overview={expiryOverview}
+                                                onDownloadCalendar={handleDownloadCalendar}
+                                                theme={theme}
+                                            />
+                                        ) : (
+                                            <p className="tw-text-sm" style={{ color: textColor, opacity: 0.8 }}>
+                                                See which assets expire in the next 30, 60 and 90 days and which have
+                                                already expired, and add the upcoming expiry dates to a calendar.
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    <div className="tw-mb-6">
+                                        <span
+                                            className="tw-block tw-font-semibold tw-mb-2"
+                                            style={{ color: textColor }}
+                                        >
+                                            Changes Since a Previous Export
+                                        </span>
+                                        <p className="tw-text-sm tw-mb-2" style={{ color: textColor, opacity: 0.8 }}>
+                                            Pick a CSV, Excel, JSON or NDJSON file exported earlier from this block to
+                                            see which assets were added, removed or changed since.
+                                        </p>
+                                        <SnapshotDiffPanel
+                                            diff={snapshotDiff}
+                                            onFileSelected={handleCompareSnapshot}
+                                            onDownload={handleDownloadChangeReport}
+                                            isComparing={isComparingSnapshot}
+                                            disabled={isBusy}
+                                            theme={theme}
+                                        />
+                                    </div>
+
+                                    <div className="tw-mb-6">
+                                        <span
+                                            className="tw-block tw-font-semibold tw-mb-2"
+                                            style={{ color: textColor }}
+                                        >
+                                            Download Package
+                                        </span>
+                                        <AssetPackagePanel
+                                            variant={packageVariant}
+                                            onVariantChange={setPackageVariant}
+                                            filenamePattern={packageFilenamePattern}
+                                            onFilenamePatternChange={setPackageFilenamePattern}
+                                            fieldKeys={filterFieldKeys}
+                                            result={packageResult}
+                                            isCreating={isCreatingPackage}
+                                            disabled={isBusy}
+                                            onDownload={handleDownloadPackage}
+                                            theme={theme}
+                                        />
                                     </div>
 
                                     <button
                                         onClick={handleExport}
-                                        disabled={isExporting}
+                                        disabled={isBusy}
                                         className="tw-px-8 tw-py-4 tw-rounded-lg tw-font-semibold tw-text-base tw-transition-all tw-shadow-md hover:tw-shadow-lg tw-w-full"
                                         style={{
                                             backgroundColor: isExporting ? '#9ca3af' : primaryColor,
@@ -359,7 +1567,11 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                                                         d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                                                     ></path>
                                                 </svg>
-                                                Exporting...
+                                                {uploadProgress
+                                                    ? `Sending ${Math.round((uploadProgress.loaded / Math.max(1, uploadProgress.total)) * 100)}%`
+                                                    : exportProgress
+                                                      ? `Exporting ${exportProgress.loaded.toLocaleString()} / ${exportProgress.total.toLocaleString()} assets`
+                                                      : 'Exporting...'}
                                             </span>
                                         ) : (
                                             <span className="tw-flex tw-items-center tw-justify-center tw-gap-2">
@@ -376,16 +1588,62 @@ export const CollectionExportBlock: FC<BlockProps> = ({ appBridge }) => {
                                                         d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
                                                     />
                                                 </svg>
-                                                Export Collection as CSV
+                                                {getExportButtonLabel()}
                                             </span>
                                         )}
                                     </button>
+
+                                    {blockSettings.exportDestination === 'http' && !delivery && (
+                                        <p
+                                            className="tw-mt-2 tw-text-sm tw-text-center"
+                                            style={{ color: textColor, opacity: 0.8 }}
+                                        >
+                                            Exports are sent to {blockSettings.destinationUrl} instead of being
+                                            downloaded.
+                                        </p>
+                                    )}
+
+                                    {delivery && (
+                                        <p className="tw-mt-2 tw-text-sm tw-text-center" style={{ color: '#15803d' }}>
+                                            {delivery.filename} was sent to {delivery.url}: HTTP {delivery.status}{' '}
+                                            {delivery.statusText}
+                                            {delivery.requestCount > 1 && ` (${delivery.requestCount} parts)`}
+                                        </p>
+                                    )}
+
+                                    {isBusy && exportProgress && (
+                                        <div className="tw-mt-4">
+                                            <div
+                                                className="tw-w-full tw-h-2 tw-rounded-full tw-overflow-hidden"
+                                                style={{ backgroundColor: borderColor }}
+                                            >
+                                                <div
+                                                    className="tw-h-full tw-rounded-full tw-transition-all"
+                                                    style={{
+                                                        backgroundColor: primaryColor,
+                                                        width: `${exportProgress.total > 0 ? (exportProgress.loaded / exportProgress.total) * 100 : 0}%`,
+                                                    }}
+                                                ></div>
+                                            </div>
+                                            <p
+                                                className="tw-mt-2 tw-text-sm"
+                                                style={{ color: textColor, opacity: 0.8 }}
+                                            >
+                                                {exportProgress.loaded.toLocaleString()} /{' '}
+                                                {exportProgress.total.toLocaleString()} assets
+                                            </p>
+                                        </div>
+                                    )}
                                 </div>
                             );
                         })()}
                 </div>
             )}
 
+            {isEditing && !loading && (
+                <ImportPanel createService={createService} profile={selectedProfile} theme={theme} />
+            )}
+
             {!loading && !error && collections.length === 0 && isConfigured && (
                 <div
                     className="tw-border tw-rounded-lg tw-p-6"
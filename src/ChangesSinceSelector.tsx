@@ -0,0 +1,81 @@
+import { type FC } from 'react';
+
+import { type BlockTheme, type ExportWatermark } from './types';
+
+/** Export every asset */
+export const CHANGES_SINCE_ALL = '';
+/** Export the changes since `date` */
+export const CHANGES_SINCE_DATE = 'date';
+
+interface ChangesSinceSelectorProps {
+    /** Exports recorded for the selected collection or library, newest first */
+    watermarks: ExportWatermark[];
+    /** CHANGES_SINCE_ALL, CHANGES_SINCE_DATE or the `exportedAt` of one of the watermarks */
+    value: string;
+    onChange: (value: string) => void;
+    /** YYYY-MM-DD, used with CHANGES_SINCE_DATE */
+    date: string;
+    onDateChange: (date: string) => void;
+    theme: BlockTheme;
+}
+
+const formatExportTime = (exportedAt: string): string =>
+    new Date(exportedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Choose between a full export and one with only the assets changed since a recorded export or a date
+ */
+export const ChangesSinceSelector: FC<ChangesSinceSelectorProps> = ({
+    watermarks,
+    value,
+    onChange,
+    date,
+    onDateChange,
+    theme,
+}) => (
+    <div style={{ color: theme.textColor }}>
+        <div className="tw-flex tw-flex-wrap tw-items-center tw-gap-2">
+            <label htmlFor="changes-since" className="tw-font-semibold">
+                Assets:
+            </label>
+            <select
+                id="changes-since"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="tw-px-2 tw-py-1 tw-rounded tw-text-sm"
+                style={{ border: `1px solid ${theme.borderColor}`, color: theme.textColor }}
+            >
+                <option value={CHANGES_SINCE_ALL}>All assets</option>
+                {watermarks.map((watermark) => (
+                    <option key={watermark.exportedAt} value={watermark.exportedAt}>
+                        Changed since the export of {formatExportTime(watermark.exportedAt)} (
+                        {watermark.assetIds.length.toLocaleString()} assets)
+                    </option>
+                ))}
+                <option value={CHANGES_SINCE_DATE}>Changed since a date…</option>
+            </select>
+            {value === CHANGES_SINCE_DATE && (
+                <input
+                    type="date"
+                    aria-label="Changed since"
+                    value={date}
+                    onChange={(e) => onDateChange(e.target.value)}
+                    className="tw-px-2 tw-py-1 tw-rounded tw-text-sm"
+                    style={{ border: `1px solid ${theme.borderColor}`, color: theme.textColor }}
+                />
+            )}
+        </div>
+        {value !== CHANGES_SINCE_ALL && (
+            <p className="tw-mt-1 tw-text-sm" style={{ opacity: 0.8 }}>
+                Only assets created, modified or added since then are exported. The file also lists the IDs of assets
+                removed since the export (CSV: <code>removed_assets.csv</code> in a ZIP, Excel: a &quot;Removed
+                Assets&quot; sheet, JSON: <code>removedAssetIds</code>), so the receiving side can delete them.
+            </p>
+        )}
+        {watermarks.length === 0 && (
+            <p className="tw-mt-1 tw-text-sm" style={{ opacity: 0.8 }}>
+                Every export is recorded in this browser, so the next one can include only what changed since.
+            </p>
+        )}
+    </div>
+);
@@ -0,0 +1,100 @@
+import { type FC } from 'react';
+
+import { type BlockTheme, type FrontifyCollection } from './types';
+
+interface CollectionPickerProps {
+    collections: FrontifyCollection[];
+    selectedIds: string[];
+    onChange: (selectedIds: string[]) => void;
+    entireLibrary: boolean;
+    onEntireLibraryChange: (entireLibrary: boolean) => void;
+    showAssetCount: boolean;
+    theme: BlockTheme;
+}
+
+/**
+ * Checkbox list for picking one or more collections to export, or the entire library
+ */
+export const CollectionPicker: FC<CollectionPickerProps> = ({
+    collections,
+    selectedIds,
+    onChange,
+    entireLibrary,
+    onEntireLibraryChange,
+    showAssetCount,
+    theme,
+}) => {
+    const toggleCollection = (collectionId: string) => {
+        onChange(
+            selectedIds.includes(collectionId)
+                ? selectedIds.filter((id) => id !== collectionId)
+                : [...selectedIds, collectionId],
+        );
+    };
+
+    const allSelected = collections.length > 0 && selectedIds.length === collections.length;
+
+    return (
+        <fieldset>
+            <legend className="tw-block tw-font-semibold tw-mb-2" style={{ color: theme.textColor }}>
+                Select Collections
+            </legend>
+            <label
+                className="tw-flex tw-items-center tw-gap-3 tw-mb-2 tw-cursor-pointer"
+                style={{ color: theme.textColor }}
+            >
+                <input
+                    type="checkbox"
+                    checked={entireLibrary}
+                    onChange={(e) => onEntireLibraryChange(e.target.checked)}
+                    style={{ accentColor: theme.primaryColor }}
+                />
+                <span className="tw-font-semibold">Entire library</span>
+                <span style={{ opacity: 0.7 }}>(every asset, including assets not in any collection)</span>
+            </label>
+            <div
+                className="tw-max-h-72 tw-overflow-y-auto tw-rounded-lg tw-px-4 tw-py-2"
+                style={{ border: `2px solid ${theme.borderColor}`, opacity: entireLibrary ? 0.5 : 1 }}
+            >
+                {collections.map((collection) => (
+                    <label
+                        key={collection.id}
+                        className="tw-flex tw-items-center tw-gap-3 tw-py-2 tw-cursor-pointer"
+                        style={{ color: theme.textColor }}
+                    >
+                        <input
+                            type="checkbox"
+                            disabled={entireLibrary}
+                            checked={selectedIds.includes(collection.id)}
+                            onChange={() => toggleCollection(collection.id)}
+                            style={{ accentColor: theme.primaryColor }}
+                        />
+                        <span>
+                            {collection.name}
+                            {showAssetCount && (
+                                <span style={{ opacity: 0.7 }}>
+                                    {' '}
+                                    ({collection.assetCount} {collection.assetCount === 1 ? 'asset' : 'assets'})
+                                </span>
+                            )}
+                        </span>
+                    </label>
+                ))}
+            </div>
+            <div className="tw-flex tw-items-center tw-justify-between tw-mt-2 tw-text-sm">
+                <span style={{ color: theme.textColor, opacity: 0.8 }}>
+                    {selectedIds.length} of {collections.length} selected
+                </span>
+                <button
+                    type="button"
+                    disabled={entireLibrary}
+                    onClick={() => onChange(allSelected ? [] : collections.map((collection) => collection.id))}
+                    className="tw-underline"
+                    style={{ color: theme.primaryColor }}
+                >
+                    {allSelected ? 'Clear selection' : 'Select all'}
+                </button>
+            </div>
+        </fieldset>
+    );
+};
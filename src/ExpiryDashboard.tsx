@@ -0,0 +1,115 @@
+import { type FC } from 'react';
+
+import { EXPIRY_WINDOW_LABELS } from './assetExpiry';
+import { type BlockTheme, type ExpiryOverview, type ExpiryWindow } from './types';
+
+interface ExpiryDashboardProps {
+    overview: ExpiryOverview;
+    onDownloadCalendar: () => void;
+    theme: BlockTheme;
+}
+
+const DASHBOARD_WINDOWS: ExpiryWindow[] = ['expired', 'next30Days', 'next60Days', 'next90Days'];
+
+const EXPIRED_COLOR = '#b91c1c';
+
+const formatDays = (days: number): string => {
+    if (days < 0) {
+        return `${Math.abs(days)} ${days === -1 ? 'day' : 'days'} ago`;
+    }
+    if (days === 0) {
+        return 'today';
+    }
+    return `in ${days} ${days === 1 ? 'day' : 'days'}`;
+};
+
+/**
+ * Assets grouped into expired, 30, 60 and 90 day windows, with a calendar download for the upcoming expiries
+ */
+export const ExpiryDashboard: FC<ExpiryDashboardProps> = ({ overview, onDownloadCalendar, theme }) => {
+    const laterCount = overview.assets.filter((asset) => asset.window === 'later').length;
+    const upcomingCount = overview.assets.length - overview.assets.filter((asset) => asset.window === 'expired').length;
+
+    return (
+        <div className="tw-text-sm tw-space-y-4" style={{ color: theme.textColor }}>
+            <div className="tw-flex tw-items-center tw-justify-between tw-gap-4">
+                <p>
+                    {overview.assets.length.toLocaleString()} of {overview.assetCount.toLocaleString()} assets have an
+                    expiry date, {laterCount.toLocaleString()} of them later than 90 days.
+                </p>
+                <button
+                    type="button"
+                    onClick={onDownloadCalendar}
+                    disabled={upcomingCount === 0}
+                    className="tw-px-4 tw-py-2 tw-rounded tw-font-semibold"
+                    style={{
+                        backgroundColor: theme.primaryColor,
+                        color: 'white',
+                        opacity: upcomingCount === 0 ? 0.5 : 1,
+                    }}
+                >
+                    Download Calendar (.ics)
+                </button>
+            </div>
+
+            {DASHBOARD_WINDOWS.map((window) => {
+                const assets = overview.assets.filter((asset) => asset.window === window);
+                const isExpired = window === 'expired';
+
+                return (
+                    <details
+                        key={window}
+                        open={assets.length > 0}
+                        className="tw-rounded tw-p-2"
+                        style={{
+                            border: `1px solid ${isExpired && assets.length > 0 ? EXPIRED_COLOR : theme.borderColor}`,
+                            backgroundColor: isExpired && assets.length > 0 ? 'rgba(254, 226, 226, 0.5)' : undefined,
+                        }}
+                    >
+                        <summary className="tw-cursor-pointer tw-font-semibold">
+                            {EXPIRY_WINDOW_LABELS[window]}: {assets.length.toLocaleString()}
+                        </summary>
+                        {assets.length > 0 && (
+                            <table className="tw-w-full tw-text-left tw-mt-2">
+                                <thead>
+                                    <tr>
+                                        <th className="tw-p-2">Asset</th>
+                                        <th className="tw-p-2">Expires</th>
+                                        <th className="tw-p-2">Collections</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {assets.map((asset) => (
+                                        <tr key={asset.assetId} style={{ borderTop: `1px solid ${theme.borderColor}` }}>
+                                            <td className="tw-p-2 tw-align-top">
+                                                {asset.url ? (
+                                                    <a
+                                                        href={asset.url}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="tw-underline"
+                                                    >
+                                                        {asset.title || asset.assetId}
+                                                    </a>
+                                                ) : (
+                                                    asset.title || asset.assetId
+                                                )}
+                                            </td>
+                                            <td
+                                                className="tw-p-2 tw-align-top tw-whitespace-nowrap"
+                                                style={{ color: isExpired ? EXPIRED_COLOR : undefined }}
+                                            >
+                                                {asset.expiresAt.slice(0, 10)} ({formatDays(asset.daysUntilExpiry)})
+                                            </td>
+                                            <td className="tw-p-2 tw-align-top">{asset.collections.join(', ')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </details>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import { type FC } from 'react';
+
+import { FILTER_OPERATOR_LABELS, operatorTakesValue } from './exportFilters';
+import { type BlockTheme, type ExportFilter, type FilterCondition, type FilterOperator } from './types';
+
+interface FilterBuilderProps {
+    filter: ExportFilter;
+    onChange: (filter: ExportFilter) => void;
+    /** Column keys suggested for conditions: standard fields and custom metadata property names */
+    fieldKeys: string[];
+    theme: BlockTheme;
+}
+
+/**
+ * Editor for the row filter: a list of conditions combined with AND ("all") or OR ("any")
+ */
+export const FilterBuilder: FC<FilterBuilderProps> = ({ filter, onChange, fieldKeys, theme }) => {
+    const inputStyle = { border: `1px solid ${theme.borderColor}`, color: theme.textColor };
+
+    const updateCondition = (index: number, changes: Partial<FilterCondition>) => {
+        onChange({
+            ...filter,
+            conditions: filter.conditions.map((condition, conditionIndex) =>
+                conditionIndex === index ? { ...condition, ...changes } : condition,
+            ),
+        });
+    };
+
+    const removeCondition = (index: number) => {
+        onChange({ ...filter, conditions: filter.conditions.filter((_, conditionIndex) => conditionIndex !== index) });
+    };
+
+    const addCondition = () => {
+        onChange({ ...filter, conditions: [...filter.conditions, { key: '', operator: 'equals', value: '' }] });
+    };
+
+    return (
+        <fieldset>
+            <legend className="tw-font-semibold" style={{ color: theme.textColor }}>
+                Filters:
+            </legend>
+
+            {filter.conditions.length > 1 && (
+                <label
+                    className="tw-flex tw-items-center tw-gap-2 tw-mt-1 tw-text-sm"
+                    style={{ color: theme.textColor }}
+                >
+                    Export assets matching
+                    <select
+                        value={filter.match}
+                        onChange={(e) => onChange({ ...filter, match: e.target.value as ExportFilter['match'] })}
+                        className="tw-px-2 tw-py-1 tw-rounded"
+                        style={inputStyle}
+                    >
+                        <option value="all">all (AND)</option>
+                        <option value="any">any (OR)</option>
+                    </select>
+                    of these conditions
+                </label>
+            )}
+
+            <datalist id="filter-field-keys">
+                {fieldKeys.map((key) => (
+                    <option key={key} value={key} />
+                ))}
+            </datalist>
+
+            {filter.conditions.map((condition, index) => (
+                <div key={index} className="tw-flex tw-flex-wrap tw-items-center tw-gap-2 tw-mt-2 tw-text-sm">
+                    <input
+                        type="text"
+                        list="filter-field-keys"
+                        aria-label="Filter column"
+                        placeholder="Column, e.g. status"
+                        value={condition.key}
+                        onChange={(e) => updateCondition(index, { key: e.target.value })}
+                        className="tw-px-2 tw-py-1 tw-rounded"
+                        style={inputStyle}
+                    />
+                    <select
+                        aria-label="Filter operator"
+                        value={condition.operator}
+                        onChange={(e) => updateCondition(index, { operator: e.target.value as FilterOperator })}
+                        className="tw-px-2 tw-py-1 tw-rounded"
+                        style={inputStyle}
+                    >
+                        {Object.entries(FILTER_OPERATOR_LABELS).map(([operator, label]) => (
+                            <option key={operator} value={operator}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                    {operatorTakesValue(condition.operator) && (
+                        <input
+                            type="text"
+                            aria-label="Filter value"
+                            placeholder="Value, e.g. Approved or 2027-01-01"
+                            value={condition.value}
+                            onChange={(e) => updateCondition(index, { value: e.target.value })}
+                            className="tw-px-2 tw-py-1 tw-rounded"
+                            style={inputStyle}
+                        />
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => removeCondition(index)}
+                        className="tw-underline"
+                        style={{ color: theme.primaryColor }}
+                    >
+                        Remove
+                    </button>
+                </div>
+            ))}
+
+            <button
+                type="button"
+                onClick={addCondition}
+                className="tw-mt-2 tw-text-sm tw-underline"
+                style={{ color: theme.primaryColor }}
+            >
+                Add condition
+            </button>
+        </fieldset>
+    );
+};
@@ -0,0 +1,254 @@
+import { useState, type ChangeEvent, type FC } from 'react';
+
+import { downloadExportFile } from './download';
+import { getErrorGuidance } from './errors';
+import { type FrontifyService } from './frontifyService';
+import { readImportFile } from './metadataImport';
+import {
+    type BlockTheme,
+    type ExportProfile,
+    type ExportProgress,
+    type ImportRowResult,
+    type MetadataImportPlan,
+} from './types';
+
+interface ImportPanelProps {
+    createService: () => FrontifyService;
+    /** Profile whose column labels map the file's headers back to column keys */
+    profile: ExportProfile | null;
+    theme: BlockTheme;
+}
+
+// Changed assets listed in the preview; the rest are summarised
+const MAX_PREVIEW_ROWS = 500;
+
+/**
+ * Import an edited CSV/XLSX export: preview the per-field changes, apply them to Frontify and offer an undo file
+ */
+export const ImportPanel: FC<ImportPanelProps> = ({ createService, profile, theme }) => {
+    const [plan, setPlan] = useState<MetadataImportPlan | null>(null);
+    const [results, setResults] = useState<ImportRowResult[] | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [progress, setProgress] = useState<ExportProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [fileInputKey, setFileInputKey] = useState(0);
+
+    const changedRows = plan?.rows.filter((row) => !row.error && row.changes.length > 0) ?? [];
+    const problemRows = plan?.rows.filter((row) => row.error) ?? [];
+    const unchangedCount = (plan?.rows.length ?? 0) - changedRows.length - problemRows.length;
+    const failedResults = results?.filter((result) => result.status === 'failed') ?? [];
+    const appliedCount = (results?.length ?? 0) - failedResults.length;
+
+    const reset = () => {
+        setPlan(null);
+        setResults(null);
+        setError(null);
+        setFileInputKey((previous) => previous + 1);
+    };
+
+    const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) {
+            return;
+        }
+
+        setIsWorking(true);
+        setPlan(null);
+        setResults(null);
+        setError(null);
+
+        try {
+            const records = readImportFile(file.name, new Uint8Array(await file.arrayBuffer()), profile);
+            setPlan(await createService().planMetadataImport(records, setProgress));
+        } catch (error_) {
+            console.error('Error reading import file:', error_);
+            setError(`Failed to read ${file.name}: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsWorking(false);
+            setProgress(null);
+        }
+    };
+
+    const handleApply = async () => {
+        if (!plan) {
+            return;
+        }
+
+        setIsWorking(true);
+        setError(null);
+
+        try {
+            setResults(await createService().applyMetadataImport(plan, setProgress));
+        } catch (error_) {
+            console.error('Error applying import:', error_);
+            setError(`Failed to apply the import: ${getErrorGuidance(error_)}`);
+        } finally {
+            setIsWorking(false);
+            setProgress(null);
+        }
+    };
+
+    const handleDownloadUndo = () => {
+        if (plan && results) {
+            const service = createService();
+            downloadExportFile(service.createImportUndoFile(plan, results));
+        }
+    };
+
+    const buttonStyle = { backgroundColor: theme.primaryColor, color: 'white' };
+
+    return (
+        <div
+            className="tw-border tw-rounded-lg tw-p-6 tw-mt-6"
+            style={{ borderColor: theme.borderColor, color: theme.textColor }}
+        >
+            <h3 className="tw-text-xl tw-font-bold tw-mb-2">Import Metadata Changes</h3>
+            <p className="tw-text-sm tw-mb-4" style={{ opacity: 0.8 }}>
+                Upload an edited CSV or Excel export with its id column. Title, description, alternative text and custom
+                metadata columns are compared with Frontify; you confirm the changes before anything is written.
+                Requires a token with the basic:write scope. Only visible in edit mode.
+            </p>
+
+            {!results && (
+                <input
+                    key={fileInputKey}
+                    type="file"
+                    accept=".csv,.xlsx,text/csv"
+                    aria-label="Import file"
+                    disabled={isWorking}
+                    onChange={handleFileChange}
+                    className="tw-text-sm"
+                />
+            )}
+
+            {isWorking && (
+                <p className="tw-mt-4 tw-text-sm">
+                    {progress
+                        ? `${plan ? 'Updating' : 'Comparing'} ${progress.loaded.toLocaleString()} / ${progress.total.toLocaleString()} assets`
+                        : 'Working...'}
+                </p>
+            )}
+
+            {error && (
+                <p className="tw-mt-4 tw-text-sm" style={{ color: '#dc2626' }}>
+                    {error}
+                </p>
+            )}
+
+            {plan && !results && !isWorking && (
+                <div className="tw-mt-4 tw-space-y-4 tw-text-sm">
+                    <p>
+                        {changedRows.length.toLocaleString()} assets with changes, {unchangedCount.toLocaleString()}{' '}
+                        unchanged, {problemRows.length.toLocaleString()} rows that cannot be applied.
+                        {plan.ignoredColumns.length > 0 &&
+                            ` Read-only or unknown columns are ignored: ${plan.ignoredColumns.join(', ')}.`}
+                    </p>
+
+                    {changedRows.length > 0 && (
+                        <div
+                            className="tw-max-h-96 tw-overflow-y-auto tw-rounded"
+                            style={{ border: `1px solid ${theme.borderColor}` }}
+                        >
+                            <table className="tw-w-full tw-text-left">
+                                <thead>
+                                    <tr>
+                                        <th className="tw-p-2">Asset</th>
+                                        <th className="tw-p-2">Field</th>
+                                        <th className="tw-p-2">Current</th>
+                                        <th className="tw-p-2">New</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changedRows.slice(0, MAX_PREVIEW_ROWS).flatMap((row) =>
+                                        row.changes.map((change, index) => (
+                                            <tr
+                                                key={`${row.assetId}-${change.key}`}
+                                                style={{ borderTop: `1px solid ${theme.borderColor}` }}
+                                            >
+                                                <td className="tw-p-2 tw-align-top">
+                                                    {index === 0 && (row.title || row.assetId)}
+                                                </td>
+                                                <td className="tw-p-2 tw-align-top tw-font-semibold">{change.key}</td>
+                                                <td className="tw-p-2 tw-align-top" style={{ color: '#b91c1c' }}>
+                                                    {change.before || <em>empty</em>}
+                                                </td>
+                                                <td className="tw-p-2 tw-align-top" style={{ color: '#15803d' }}>
+                                                    {change.after || <em>empty</em>}
+                                                </td>
+                                            </tr>
+                                        )),
+                                    )}
+                                </tbody>
+                            </table>
+                            {changedRows.length > MAX_PREVIEW_ROWS && (
+                                <p className="tw-p-2" style={{ opacity: 0.8 }}>
+                                    and {(changedRows.length - MAX_PREVIEW_ROWS).toLocaleString()} more assets
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {problemRows.length > 0 && (
+                        <ul className="tw-list-disc tw-list-inside tw-space-y-1" style={{ color: '#92400e' }}>
+                            {problemRows.map((row) => (
+                                <li key={row.source}>
+                                    {row.source}
+                                    {row.assetId && ` (${row.assetId})`}: {row.error}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="tw-flex tw-gap-4">
+                        <button
+                            type="button"
+                            disabled={changedRows.length === 0}
+                            onClick={handleApply}
+                            className="tw-px-4 tw-py-2 tw-rounded tw-font-semibold"
+                            style={{ ...buttonStyle, opacity: changedRows.length === 0 ? 0.5 : 1 }}
+                        >
+                            Apply changes to {changedRows.length.toLocaleString()} assets
+                        </button>
+                        <button type="button" onClick={reset} className="tw-underline">
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {results && !isWorking && (
+                <div className="tw-mt-4 tw-space-y-4 tw-text-sm">
+                    <p>
+                        {appliedCount.toLocaleString()} assets updated, {failedResults.length.toLocaleString()} failed.
+                    </p>
+
+                    {failedResults.length > 0 && (
+                        <ul className="tw-list-disc tw-list-inside tw-space-y-1" style={{ color: '#991b1b' }}>
+                            {failedResults.map((result) => (
+                                <li key={result.source}>
+                                    {result.source} ({result.assetId}): {result.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="tw-flex tw-gap-4">
+                        {appliedCount > 0 && (
+                            <button
+                                type="button"
+                                onClick={handleDownloadUndo}
+                                className="tw-px-4 tw-py-2 tw-rounded tw-font-semibold"
+                                style={buttonStyle}
+                            >
+                                Download undo file
+                            </button>
+                        )}
+                        <button type="button" onClick={reset} className="tw-underline">
+                            Import another file
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+import { type FC } from 'react';
+
+import { getFillRate, QUALITY_ISSUE_LABELS } from './metadataReport';
+import { type BlockTheme, type MetadataReport, type QualityIssueType } from './types';
+
+interface MetadataReportViewProps {
+    report: MetadataReport;
+    onDownload: () => void;
+    theme: BlockTheme;
+}
+
+// Assets listed per field or issue; the rest are in the CSV
+const MAX_LISTED_ASSETS = 100;
+
+const getFillRateColor = (fillRate: number): string => {
+    if (fillRate === 100) {
+        return '#15803d';
+    }
+    return fillRate >= 80 ? '#b45309' : '#b91c1c';
+};
+
+/**
+ * Completeness table with per-field fill rates and quality issues, each expandable to the affected assets
+ */
+export const MetadataReportView: FC<MetadataReportViewProps> = ({ report, onDownload, theme }) => {
+    const issueTypes = Object.keys(QUALITY_ISSUE_LABELS) as QualityIssueType[];
+
+    const renderAssetList = (assets: { assetId: string; title: string; detail?: string }[]) => (
+        <ul className="tw-list-disc tw-list-inside tw-mt-1 tw-space-y-1" style={{ opacity: 0.8 }}>
+            {assets.slice(0, MAX_LISTED_ASSETS).map(({ assetId, title, detail }) => (
+                <li key={assetId}>
+                    {title || <em>Untitled</em>} <span className="tw-text-xs">({assetId})</span>
+                    {detail && ` – ${detail}`}
+                </li>
+            ))}
+            {assets.length > MAX_LISTED_ASSETS && (
+                <li>and {(assets.length - MAX_LISTED_ASSETS).toLocaleString()} more, see the CSV</li>
+            )}
+        </ul>
+    );
+
+    return (
+        <div className="tw-text-sm tw-space-y-4" style={{ color: theme.textColor }}>
+            <div className="tw-flex tw-items-center tw-justify-between tw-gap-4">
+                <p>
+                    {report.assetCount.toLocaleString()} assets, {report.fields.length} fields,{' '}
+                    {report.issues.length.toLocaleString()} quality issues
+                </p>
+                <button
+                    type="button"
+                    onClick={onDownload}
+                    className="tw-px-4 tw-py-2 tw-rounded tw-font-semibold"
+                    style={{ backgroundColor: theme.primaryColor, color: 'white' }}
+                >
+                    Export Report as CSV
+                </button>
+            </div>
+
+            <div>
+                <h4 className="tw-font-semibold tw-mb-2">Quality issues</h4>
+                {issueTypes.map((issueType) => {
+                    const issues = report.issues.filter((issue) => issue.type === issueType);
+                    return (
+                        <details key={issueType} className="tw-py-1">
+                            <summary className="tw-cursor-pointer">
+                                {QUALITY_ISSUE_LABELS[issueType]}:{' '}
+                                <span style={{ color: issues.length > 0 ? '#b91c1c' : '#15803d' }}>
+                                    {issues.length.toLocaleString()}
+                                </span>
+                            </summary>
+                            {issues.length > 0 && renderAssetList(issues)}
+                        </details>
+                    );
+                })}
+            </div>
+
+            <div>
+                <h4 className="tw-font-semibold tw-mb-2">Fill rate per field</h4>
+                {report.fields.map((field) => {
+                    const fillRate = getFillRate(field);
+                    return (
+                        <details key={field.key} className="tw-py-1">
+                            <summary className="tw-cursor-pointer">
+                                <span className="tw-inline-flex tw-items-center tw-gap-3 tw-w-11/12">
+                                    <span className="tw-w-48 tw-truncate" title={field.label}>
+                                        {field.label}
+                                        {field.custom && <span style={{ opacity: 0.6 }}> (custom)</span>}
+                                    </span>
+                                    <span
+                                        className="tw-flex-1 tw-h-2 tw-rounded-full tw-overflow-hidden"
+                                        style={{ backgroundColor: theme.borderColor }}
+                                    >
+                                        <span
+                                            className="tw-block tw-h-full"
+                                            style={{
+                                                width: `${fillRate}%`,
+                                                backgroundColor: getFillRateColor(fillRate),
+                                            }}
+                                        />
+                                    </span>
+                                    <span className="tw-w-32 tw-text-right">
+                                        {fillRate}% ({field.filledCount.toLocaleString()} /{' '}
+                                        {field.applicableCount.toLocaleString()})
+                                    </span>
+                                </span>
+                            </summary>
+                            {field.missingAssetIds.length > 0 &&
+                                renderAssetList(
+                                    field.missingAssetIds.map((assetId) => ({
+                                        assetId,
+                                        title: report.assetTitles[assetId] ?? '',
+                                    })),
+                                )}
+                        </details>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,170 @@
+import { useState, type ChangeEvent, type FC } from 'react';
+
+import { type BlockTheme, type SnapshotAssetReference, type SnapshotDiff } from './types';
+
+interface SnapshotDiffPanelProps {
+    diff: SnapshotDiff | null;
+    onFileSelected: (file: File) => Promise<void>;
+    onDownload: () => void;
+    isComparing: boolean;
+    disabled: boolean;
+    theme: BlockTheme;
+}
+
+// Changed assets listed in the block; the rest are in the change report
+const MAX_LISTED_ASSETS = 500;
+
+/**
+ * Load a previous export and show the assets added, removed and changed since, with a CSV change report
+ */
+export const SnapshotDiffPanel: FC<SnapshotDiffPanelProps> = ({
+    diff,
+    onFileSelected,
+    onDownload,
+    isComparing,
+    disabled,
+    theme,
+}) => {
+    const [fileInputKey, setFileInputKey] = useState(0);
+
+    const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) {
+            await onFileSelected(file);
+            // Allow comparing with the same file again after the selection changed
+            setFileInputKey((previous) => previous + 1);
+        }
+    };
+
+    const renderAssetList = (assets: SnapshotAssetReference[]) => (
+        <ul className="tw-list-disc tw-list-inside tw-mt-1 tw-space-y-1" style={{ opacity: 0.8 }}>
+            {assets.slice(0, MAX_LISTED_ASSETS).map((asset) => (
+                <li key={asset.assetId}>
+                    {asset.title || <em>Untitled</em>} <span className="tw-text-xs">({asset.assetId})</span>
+                </li>
+            ))}
+            {assets.length > MAX_LISTED_ASSETS && (
+                <li>and {(assets.length - MAX_LISTED_ASSETS).toLocaleString()} more, see the change report</li>
+            )}
+        </ul>
+    );
+
+    return (
+        <div className="tw-text-sm tw-space-y-3" style={{ color: theme.textColor }}>
+            <input
+                key={fileInputKey}
+                type="file"
+                accept=".csv,.xlsx,.json,.ndjson,text/csv,application/json"
+                aria-label="Previous export"
+                disabled={disabled}
+                onChange={handleFileChange}
+            />
+            {isComparing && <p>Comparing...</p>}
+
+            {diff && !isComparing && (
+                <div className="tw-space-y-3">
+                    <div className="tw-flex tw-items-center tw-justify-between tw-gap-4">
+                        <p>
+                            Since {diff.previousFilename}
+                            {diff.previousExportedAt && ` (exported ${diff.previousExportedAt.slice(0, 10)})`}:{' '}
+                            <span style={{ color: '#15803d' }}>{diff.added.length.toLocaleString()} added</span>,{' '}
+                            <span style={{ color: '#b91c1c' }}>{diff.removed.length.toLocaleString()} removed</span>,{' '}
+                            {diff.changed.length.toLocaleString()} changed, {diff.unchangedCount.toLocaleString()}{' '}
+                            unchanged.
+                        </p>
+                        <button
+                            type="button"
+                            onClick={onDownload}
+                            className="tw-px-4 tw-py-2 tw-rounded tw-font-semibold"
+                            style={{ backgroundColor: theme.primaryColor, color: 'white' }}
+                        >
+                            Download Change Report
+                        </button>
+                    </div>
+
+                    {diff.hiddenCount > 0 && (
+                        <p style={{ opacity: 0.8 }}>
+                            {diff.hiddenCount.toLocaleString()} assets of the file are still selected but hidden by the
+                            row filter or preview search, so they were not compared.
+                        </p>
+                    )}
+
+                    {diff.skippedColumns.length > 0 && (
+                        <p style={{ color: '#92400e' }}>
+                            Not compared, because the current export has no such column:{' '}
+                            {diff.skippedColumns.join(', ')}. If the file was exported with a profile, select that
+                            profile first.
+                        </p>
+                    )}
+
+                    {diff.added.length > 0 && (
+                        <details>
+                            <summary className="tw-cursor-pointer tw-font-semibold">
+                                Added ({diff.added.length.toLocaleString()})
+                            </summary>
+                            {renderAssetList(diff.added)}
+                        </details>
+                    )}
+                    {diff.removed.length > 0 && (
+                        <details>
+                            <summary className="tw-cursor-pointer tw-font-semibold">
+                                Removed ({diff.removed.length.toLocaleString()})
+                            </summary>
+                            {renderAssetList(diff.removed)}
+                        </details>
+                    )}
+                    {diff.changed.length > 0 && (
+                        <details open>
+                            <summary className="tw-cursor-pointer tw-font-semibold">
+                                Changed ({diff.changed.length.toLocaleString()})
+                            </summary>
+                            <div
+                                className="tw-max-h-96 tw-overflow-y-auto tw-rounded tw-mt-1"
+                                style={{ border: `1px solid ${theme.borderColor}` }}
+                            >
+                                <table className="tw-w-full tw-text-left">
+                                    <thead>
+                                        <tr>
+                                            <th className="tw-p-2">Asset</th>
+                                            <th className="tw-p-2">Field</th>
+                                            <th className="tw-p-2">Old</th>
+                                            <th className="tw-p-2">New</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {diff.changed.slice(0, MAX_LISTED_ASSETS).flatMap((asset) =>
+                                            asset.changes.map((change, index) => (
+                                                <tr
+                                                    key={`${asset.assetId}-${change.key}`}
+                                                    style={{ borderTop: `1px solid ${theme.borderColor}` }}
+                                                >
+                                                    <td className="tw-p-2 tw-align-top">
+                                                        {index === 0 && (asset.title || asset.assetId)}
+                                                    </td>
+                                                    <td className="tw-p-2 tw-align-top tw-font-semibold">
+                                                        {change.key}
+                                                    </td>
+                                                    <td className="tw-p-2 tw-align-top" style={{ color: '#b91c1c' }}>
+                                                        {change.before || <em>empty</em>}
+                                                    </td>
+                                                    <td className="tw-p-2 tw-align-top" style={{ color: '#15803d' }}>
+                                                        {change.after || <em>empty</em>}
+                                                    </td>
+                                                </tr>
+                                            )),
+                                        )}
+                                    </tbody>
+                                </table>
+                                {diff.changed.length > MAX_LISTED_ASSETS && (
+                                    <p className="tw-p-2" style={{ opacity: 0.8 }}>
+                                        and {(diff.changed.length - MAX_LISTED_ASSETS).toLocaleString()} more assets
+                                    </p>
+                                )}
+                            </div>
+                        </details>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
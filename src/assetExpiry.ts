@@ -0,0 +1,156 @@
+import {
+    type AssetForExport,
+    type ExpiringAsset,
+    type ExpiryOverview,
+    type ExpiryWindow,
+    type FrontifyAsset,
+    type StructuredExportCollection,
+} from './types';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export const EXPIRY_WINDOW_LABELS: Record<ExpiryWindow, string> = {
+    expired: 'Already expired',
+    next30Days: 'Next 30 days',
+    next60Days: 'In 31–60 days',
+    next90Days: 'In 61–90 days',
+    later: 'Later than 90 days',
+};
+
+const getExpiryWindow = (daysUntilExpiry: number, isExpired: boolean): ExpiryWindow => {
+    if (isExpired) {
+        return 'expired';
+    }
+    if (daysUntilExpiry <= 30) {
+        return 'next30Days';
+    }
+    if (daysUntilExpiry <= 60) {
+        return 'next60Days';
+    }
+    return daysUntilExpiry <= 90 ? 'next90Days' : 'later';
+};
+
+/**
+ * Link for an asset: the template with `{id}` replaced by the asset ID, otherwise its preview URL
+ */
+export const getAssetLink = (assetId: string, previewUrl: string, linkTemplate?: string): string =>
+    linkTemplate?.trim() ? linkTemplate.trim().replaceAll('{id}', encodeURIComponent(assetId)) : previewUrl;
+
+/**
+ * Group assets by how soon they expire. `exportData` is the output of prepareAssetsForExport for the same assets,
+ * in the same order. Assets without a valid expiry date are only counted.
+ */
+export const createExpiryOverview = (
+    name: string,
+    assets: FrontifyAsset[],
+    exportData: AssetForExport[],
+    getCollections: (assetId: string) => StructuredExportCollection[],
+    linkTemplate?: string,
+    now = new Date(),
+): ExpiryOverview => {
+    const expiringAssets: ExpiringAsset[] = [];
+
+    for (const [index, asset] of assets.entries()) {
+        const expiresAt = asset.expiresAt ? new Date(asset.expiresAt) : null;
+        if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+            continue;
+        }
+
+        const daysUntilExpiry = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_IN_MS);
+        expiringAssets.push({
+            assetId: asset.id,
+            title: asset.title || '',
+            expiresAt: expiresAt.toISOString(),
+            daysUntilExpiry,
+            window: getExpiryWindow(daysUntilExpiry, expiresAt < now),
+            collections: getCollections(asset.id).map((collection) => collection.name),
+            url: getAssetLink(asset.id, exportData[index].previewUrl, linkTemplate),
+        });
+    }
+
+    return {
+        name,
+        createdAt: now.toISOString(),
+        assetCount: assets.length,
+        assets: expiringAssets.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt)),
+        withoutExpiryCount: assets.length - expiringAssets.length,
+    };
+};
+
+// RFC 5545 3.3.11: backslashes, semicolons, commas and line breaks are escaped in text values
+const escapeText = (value: string): string =>
+    value.replaceAll('\\', '\\\\').replaceAll(';', '\\;').replaceAll(',', '\\,').replaceAll(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 3.1), without splitting UTF-8 characters
+ */
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentLength = 0;
+
+    for (const character of line) {
+        const length = encoder.encode(character).length;
+        // Continuation lines start with a space, which counts towards their 75 octets
+        if (currentLength + length > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            currentLength = 0;
+        }
+        current += character;
+        currentLength += length;
+    }
+
+    return [...parts, current].join('\r\n ');
+};
+
+const toICalDate = (date: Date): string => date.toISOString().slice(0, 10).replaceAll('-', '');
+
+const toICalDateTime = (date: Date): string => `${date.toISOString().slice(0, 19).replaceAll(/[:-]/g, '')}Z`;
+
+/**
+ * iCalendar file with one all-day event per asset that has not expired yet, on its (UTC) expiry date.
+ * Event UIDs are derived from the asset ID and the domain, so importing a newer file updates the existing events.
+ */
+export const createExpiryCalendar = (overview: ExpiryOverview, domain: string): string => {
+    const timestamp = toICalDateTime(new Date(overview.createdAt));
+    const events = overview.assets
+        .filter((asset) => asset.window !== 'expired')
+        .flatMap((asset) => {
+            const start = new Date(asset.expiresAt);
+            const end = new Date(start.getTime() + DAY_IN_MS);
+            const description = [
+                `Asset ID: ${asset.assetId}`,
+                asset.collections.length > 0 ? `Collections: ${asset.collections.join(', ')}` : '',
+                `Expires at: ${asset.expiresAt}`,
+                asset.url,
+            ].filter(Boolean);
+
+            return [
+                'BEGIN:VEVENT',
+                `UID:asset-expiry-${asset.assetId}@${domain || 'frontify'}`,
+                `DTSTAMP:${timestamp}`,
+                `DTSTART;VALUE=DATE:${toICalDate(start)}`,
+                `DTEND;VALUE=DATE:${toICalDate(end)}`,
+                `SUMMARY:${escapeText(`Asset expires: ${asset.title || asset.assetId}`)}`,
+                `DESCRIPTION:${escapeText(description.join('\n'))}`,
+                ...(asset.url ? [`URL:${asset.url}`] : []),
+                'TRANSP:TRANSPARENT',
+                'END:VEVENT',
+            ];
+        });
+
+    return `${[
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Frontify Collection Export//Asset Expiry//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`Asset expiry: ${overview.name}`)}`,
+        ...events,
+        'END:VCALENDAR',
+    ]
+        .map(foldLine)
+        .join('\r\n')}\r\n`;
+};
@@ -0,0 +1,106 @@
+import { resolveColumnKey } from './exportColumns';
+import { type AssetForExport, type ExportColumn } from './types';
+
+export const DEFAULT_PACKAGE_FILENAME_PATTERN = '{title}';
+
+/** Folder of the asset files inside the package; the manifest sits next to it */
+export const PACKAGE_FILES_FOLDER = 'files';
+
+const MAX_FILENAME_LENGTH = 150;
+
+// Extensions for the content types Frontify serves when an asset has no extension of its own (e.g. previews)
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/svg+xml': 'svg',
+    'image/tiff': 'tif',
+    'video/mp4': 'mp4',
+    'video/quicktime': 'mov',
+    'video/webm': 'webm',
+    'audio/mpeg': 'mp3',
+    'audio/wav': 'wav',
+    'application/pdf': 'pdf',
+    'application/zip': 'zip',
+};
+
+/**
+ * Column keys used in a file name pattern, e.g. `["title", "id"]` for `{title}_{id}`
+ */
+export const getFilenamePatternKeys = (pattern: string): string[] =>
+    [...pattern.matchAll(/{([^{}]+)}/g)].map((match) => match[1].trim());
+
+// Replaces characters that are not allowed in file names on Windows or macOS, and control characters
+const sanitizePathSegment = (value: string): string =>
+    value
+        .replaceAll(/[\p{Cc}"*/:<>?\\|]/gu, '_')
+        .replaceAll(/\s+/g, ' ')
+        // Separators left over from empty placeholders, and leading dots (hidden files)
+        .replaceAll(/^[\s._-]+|[\s_-]+$/g, '')
+        .slice(0, MAX_FILENAME_LENGTH)
+        .trim();
+
+/**
+ * File name (without extension) for an asset: the pattern with every `{column key}` replaced by the asset's
+ * flattened export value. Custom metadata names are resolved to their columns with `columns`.
+ * Falls back to the asset ID when the pattern yields nothing usable.
+ */
+export const formatPackageFilename = (pattern: string, data: AssetForExport, columns: ExportColumn[] = []): string =>
+    sanitizePathSegment(
+        (pattern.trim() || DEFAULT_PACKAGE_FILENAME_PATTERN).replaceAll(/{([^{}]+)}/g, (_, key: string) =>
+            String(data[resolveColumnKey(key, columns)] ?? ''),
+        ),
+    ) || sanitizePathSegment(data.id);
+
+/**
+ * File extension for a downloaded asset file: the asset's own extension for originals, otherwise the one
+ * matching the response's content type or the URL path
+ */
+export const getPackageFileExtension = (url: string, contentType: string | null, assetExtension?: string): string => {
+    const ownExtension = assetExtension?.replace(/^\./, '').toLowerCase();
+    if (ownExtension) {
+        return ownExtension;
+    }
+
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+    if (CONTENT_TYPE_EXTENSIONS[mimeType]) {
+        return CONTENT_TYPE_EXTENSIONS[mimeType];
+    }
+
+    try {
+        return /\.(\w{1,5})$/.exec(new URL(url).pathname)?.[1].toLowerCase() ?? 'bin';
+    } catch {
+        return 'bin';
+    }
+};
+
+/**
+ * Give every name a unique variant by appending `_2`, `_3`, ... to repeats (case-insensitive, as on Windows and macOS)
+ */
+export const makeUniqueNames = (names: string[]): string[] => {
+    const usedNames = new Set<string>();
+
+    return names.map((name) => {
+        let uniqueName = name;
+        for (let suffix = 2; usedNames.has(uniqueName.toLowerCase()); suffix++) {
+            uniqueName = `${name}_${suffix}`;
+        }
+        usedNames.add(uniqueName.toLowerCase());
+        return uniqueName;
+    });
+};
+
+/**
+ * Join streamed output chunks into one buffer
+ */
+export const concatChunks = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
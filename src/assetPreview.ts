@@ -0,0 +1,88 @@
+import {
+    type CollectionAssetsResult,
+    type ExportColumn,
+    type FrontifyAsset,
+    type PreviewRow,
+    type PreviewView,
+} from './types';
+
+const THUMBNAIL_WIDTH = 80;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * The rows the preview grid shows: rows matching the search text in any visible column, in sort order.
+ * Sorting by a column that is not visible (e.g. after switching profiles) keeps the loaded order.
+ */
+export const getVisiblePreviewRows = (
+    rows: PreviewRow[],
+    columns: ExportColumn[],
+    { searchText, sort }: PreviewView,
+): PreviewRow[] => {
+    const query = searchText.trim().toLowerCase();
+    const matchingRows = query
+        ? rows.filter(({ data }) =>
+              columns.some(({ key }) =>
+                  String(data[key] ?? '')
+                      .toLowerCase()
+                      .includes(query),
+              ),
+          )
+        : rows;
+
+    if (!sort || !columns.some(({ key }) => key === sort.key)) {
+        return matchingRows;
+    }
+
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...matchingRows].sort((a, b) => {
+        const valueA = String(a.data[sort.key] ?? '');
+        const valueB = String(b.data[sort.key] ?? '');
+
+        // Empty values go last in both directions
+        if (!valueA || !valueB) {
+            return Number(!valueA) - Number(!valueB);
+        }
+        return collator.compare(valueA, valueB) * direction;
+    });
+};
+
+/**
+ * Narrow a fetch result to the given assets, in their order, so the export matches the preview grid.
+ * Collection groups keep only the given assets, in the same order.
+ */
+export const restrictToAssets = (
+    { groups }: CollectionAssetsResult,
+    assets: FrontifyAsset[],
+): CollectionAssetsResult => {
+    const assetIds = assets.map((asset) => asset.id);
+
+    return {
+        assets,
+        groups: groups.map(({ collection, assetIds: groupAssetIds }) => {
+            const groupAssetIdSet = new Set(groupAssetIds);
+            return { collection, assetIds: assetIds.filter((assetId) => groupAssetIdSet.has(assetId)) };
+        }),
+    };
+};
+
+/**
+ * A small rendition of the asset's preview image for grid thumbnails
+ */
+export const getThumbnailUrl = (previewUrl: string | undefined): string | null => {
+    if (!previewUrl) {
+        return null;
+    }
+
+    try {
+        const url = new URL(previewUrl);
+        // Data URLs, like the sample library's previews, have no renditions; a query would corrupt the image
+        if (url.protocol === 'data:') {
+            return previewUrl;
+        }
+        url.searchParams.set('width', String(THUMBNAIL_WIDTH));
+        return url.toString();
+    } catch {
+        return previewUrl;
+    }
+};
@@ -0,0 +1,207 @@
+import { type MetadataCache } from './metadataCache';
+import {
+    type AssetReference,
+    type AssetUpdateData,
+    type CustomMetadataPropertyDefinition,
+    type FrontifyAsset,
+    type FrontifyCollection,
+    type FrontifyDataSource,
+} from './types';
+
+export const DEFAULT_CACHE_TTL_MINUTES = 60;
+
+// Listings expire with the TTL; asset records stay until their asset changes or no listing includes it
+const LISTING_PREFIX = 'listing:';
+const ASSET_PREFIX = 'asset:';
+const COLLECTIONS_LISTING_KEY = 'collections';
+const COLLECTION_LISTING_PREFIX = 'collection:';
+
+/**
+ * Wraps a data source with the persistent MetadataCache. Collection and asset listings are reused until they are
+ * older than `ttlMs`. Asset metadata is reused while the listing reports the `modifiedAt` it was cached with, so
+ * after the TTL (or invalidateListings) only assets modified since are fetched again. Records of assets that no
+ * cached listing includes after a refresh are deleted. Custom metadata property
+ * definitions always come from the wrapped source. When the cache fails, requests go to the wrapped source.
+ */
+export class CachedDataSource implements FrontifyDataSource {
+    readonly domain: string;
+    readonly libraryId: string;
+    /** When the collection listing last returned by fetchCollections was fetched from the wrapped source */
+    collectionsFetchedAt: Date | null = null;
+    private source: FrontifyDataSource;
+    private cache: Promise<MetadataCache | null>;
+    private ttlMs: number;
+    /** `modifiedAt` of the assets in the listings read so far, by asset ID */
+    private listedModifiedAt = new Map<string, string>();
+
+    constructor(source: FrontifyDataSource, cache: Promise<MetadataCache | null>, ttlMs: number) {
+        this.source = source;
+        this.cache = cache;
+        this.ttlMs = ttlMs;
+        this.domain = source.domain;
+        this.libraryId = source.libraryId;
+    }
+
+    async fetchCollections(): Promise<FrontifyCollection[]> {
+        const { value, storedAt, previous } = await this.getListing(COLLECTIONS_LISTING_KEY, () =>
+            this.source.fetchCollections(),
+        );
+        this.collectionsFetchedAt = new Date(storedAt);
+        if (previous) {
+            const collectionIds = new Set(value.map((collection) => collection.id));
+            await this.dropCollectionListings(
+                previous.filter((collection) => !collectionIds.has(collection.id)).map((collection) => collection.id),
+            );
+        }
+        return value;
+    }
+
+    async fetchCollectionAssetRefs(collectionId: string): Promise<AssetReference[]> {
+        const { value, previous } = await this.getListing(COLLECTION_LISTING_PREFIX + collectionId, () =>
+            this.source.fetchCollectionAssetRefs(collectionId),
+        );
+        await this.pruneDroppedAssets(previous, value);
+        return this.rememberModifiedAt(value);
+    }
+
+    async fetchLibraryAssetRefs(): Promise<AssetReference[]> {
+        const { value, previous } = await this.getListing('library', () => this.source.fetchLibraryAssetRefs());
+        await this.pruneDroppedAssets(previous, value);
+        return this.rememberModifiedAt(value);
+    }
+
+    /**
+     * Cached assets whose `modifiedAt` matches the listing, and the others fetched from the wrapped source.
+     * Assets not in a listing read before, such as those of an import file, are always fetched.
+     */
+    async fetchAssetsByIds(assetIds: string[]): Promise<FrontifyAsset[]> {
+        const cached =
+            (await this.useCache((cache) =>
+                cache.getMany<FrontifyAsset>(assetIds.map((assetId) => ASSET_PREFIX + assetId)),
+            )) ?? [];
+        const reusable = new Map<string, FrontifyAsset>();
+        for (const entry of cached) {
+            const modifiedAt = entry && this.listedModifiedAt.get(entry.value.id);
+            if (entry && modifiedAt && entry.value.modifiedAt === modifiedAt) {
+                reusable.set(entry.value.id, entry.value);
+            }
+        }
+
+        const missingIds = assetIds.filter((assetId) => !reusable.has(assetId));
+        const fetched = missingIds.length > 0 ? await this.source.fetchAssetsByIds(missingIds) : [];
+        await this.useCache((cache) =>
+            cache.setMany(fetched.map((asset): [string, FrontifyAsset] => [ASSET_PREFIX + asset.id, asset])),
+        );
+
+        const fetchedById = new Map(fetched.map((asset) => [asset.id, asset]));
+        return assetIds.flatMap((assetId) => {
+            const asset = reusable.get(assetId) ?? fetchedById.get(assetId);
+            return asset ? [asset] : [];
+        });
+    }
+
+    async fetchCustomMetadataProperties(): Promise<CustomMetadataPropertyDefinition[]> {
+        return this.source.fetchCustomMetadataProperties();
+    }
+
+    async updateAsset(assetId: string, data: AssetUpdateData): Promise<void> {
+        await this.source.updateAsset(assetId, data);
+        // The cached listings still report the old modifiedAt, so the cached record must not be reused
+        this.listedModifiedAt.delete(assetId);
+        await this.useCache((cache) => cache.delete(ASSET_PREFIX + assetId));
+    }
+
+    /**
+     * Expire the cached listings, so the next requests list collections and assets again and fetch the assets
+     * modified since they were cached. The expired listings are kept until then, to find the assets they dropped.
+     */
+    async invalidateListings(): Promise<void> {
+        this.listedModifiedAt.clear();
+        await this.useCache((cache) => cache.expireByPrefix(LISTING_PREFIX));
+    }
+
+    /**
+     * The cached listing while it is younger than the TTL, otherwise the listing fetched again, with the expired
+     * one as `previous`
+     */
+    private async getListing<T>(
+        key: string,
+        fetchListing: () => Promise<T>,
+    ): Promise<{ value: T; storedAt: number; previous?: T }> {
+        const cached = await this.useCache((cache) => cache.get<T>(LISTING_PREFIX + key));
+        if (cached && Date.now() - cached.storedAt < this.ttlMs) {
+            return cached;
+        }
+
+        const value = await fetchListing();
+        await this.useCache((cache) => cache.set(LISTING_PREFIX + key, value));
+        return { value, storedAt: Date.now(), previous: cached?.value };
+    }
+
+    /**
+     * Delete the asset listings of collections that no longer exist, and the records of the assets only they listed
+     */
+    private async dropCollectionListings(collectionIds: string[]): Promise<void> {
+        if (collectionIds.length === 0) {
+            return;
+        }
+        const keys = collectionIds.map((collectionId) => LISTING_PREFIX + COLLECTION_LISTING_PREFIX + collectionId);
+        const listings = await this.useCache(async (cache) => {
+            const entries = await cache.getMany<AssetReference[]>(keys);
+            await cache.deleteMany(keys);
+            return entries;
+        });
+        await this.pruneAssets((listings ?? []).flatMap((entry) => (entry?.value ?? []).map((ref) => ref.id)));
+    }
+
+    private async pruneDroppedAssets(previous: AssetReference[] | undefined, current: AssetReference[]): Promise<void> {
+        if (!previous) {
+            return;
+        }
+        const currentIds = new Set(current.map((ref) => ref.id));
+        await this.pruneAssets(previous.map((ref) => ref.id).filter((assetId) => !currentIds.has(assetId)));
+    }
+
+    /**
+     * Delete the records of those assets that no cached asset listing includes any more
+     */
+    private async pruneAssets(assetIds: string[]): Promise<void> {
+        if (assetIds.length === 0) {
+            return;
+        }
+        await this.useCache(async (cache) => {
+            const listings = await cache.getByPrefix<unknown>(LISTING_PREFIX);
+            listings.delete(LISTING_PREFIX + COLLECTIONS_LISTING_KEY);
+            const listedIds = new Set(
+                [...listings.values()].flatMap(({ value }) => (value as AssetReference[]).map((ref) => ref.id)),
+            );
+            const unlistedIds = assetIds.filter((assetId) => !listedIds.has(assetId));
+            for (const assetId of unlistedIds) {
+                this.listedModifiedAt.delete(assetId);
+            }
+            await cache.deleteMany(unlistedIds.map((assetId) => ASSET_PREFIX + assetId));
+        });
+    }
+
+    private rememberModifiedAt(assetRefs: AssetReference[]): AssetReference[] {
+        for (const { id, modifiedAt } of assetRefs) {
+            if (modifiedAt) {
+                this.listedModifiedAt.set(id, modifiedAt);
+            }
+        }
+        return assetRefs;
+    }
+
+    /**
+     * Run a cache operation; a missing or failing cache only costs the requests it would have saved
+     */
+    private async useCache<T>(operation: (cache: MetadataCache) => Promise<T>): Promise<T | undefined> {
+        try {
+            const cache = await this.cache;
+            return cache ? await operation(cache) : undefined;
+        } catch (error) {
+            console.warn('Metadata cache error, using Frontify directly:', error);
+            return undefined;
+        }
+    }
+}
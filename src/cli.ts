@@ -0,0 +1,276 @@
+#!/usr/bin/env node
+/**
+ * Command line interface for scripted exports (cron, CI) without opening Frontify. Uses the block's FrontifyService,
+ * so files are identical to those downloaded in the browser. Build with `npm run build:cli`, then run:
+ *
+ *     node dist/cli.mjs list-collections
+ *     node dist/cli.mjs export-collection "Product Shots" --format xlsx --output exports/
+ *     node dist/cli.mjs export-collection "Product Shots" --watermark product-shots.watermark.json -o exports/
+ *     node dist/cli.mjs inspect-metadata "Product Shots" --limit 5
+ *
+ * Domain, token and library come from --domain, --token and --library, or from the FRONTIFY_DOMAIN, FRONTIFY_TOKEN
+ * and FRONTIFY_LIBRARY_ID environment variables, which may also be set in a .env file in the working directory.
+ * With --demo, commands run against the bundled sample library instead, offline and without a token.
+ */
+import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { getErrorGuidance } from './errors';
+import {
+    createExportWatermark,
+    findBaselineWatermark,
+    getWatermarkCutoff,
+    selectChangedAssets,
+} from './exportWatermarks';
+import { FixtureDataSource } from './fixtureDataSource';
+import { FrontifyService } from './frontifyService';
+import { GraphQLDataSource } from './graphqlDataSource';
+import { type ExportChanges, type ExportFormat, type ExportWatermark, type FrontifyCollection } from './types';
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'ndjson'];
+
+const DEFAULT_INSPECT_LIMIT = 3;
+
+const USAGE = `Usage: node dist/cli.mjs <command> [options]
+
+Commands:
+  list-collections                  Print the library's collections: ID, asset count and name, tab-separated
+  export-collection <collection>    Export a collection, given by ID or exact name
+  inspect-metadata [collection]     Print the custom metadata definitions and the raw values of a few assets
+
+Options:
+  --domain <host>       Frontify domain, e.g. brand.frontify.com   (env FRONTIFY_DOMAIN)
+  --token <token>       API bearer token                          (env FRONTIFY_TOKEN)
+  --library <id>        Library ID                                (env FRONTIFY_LIBRARY_ID)
+  --format <format>     csv, xlsx, json or ndjson (default csv)
+  -o, --output <path>   File or existing directory to write to (default: standard output)
+  --limit <count>       Assets to show with inspect-metadata (default ${DEFAULT_INSPECT_LIMIT})
+  --watermark <file>    Record the export in this file; when it exists, export only the changes since the
+                        recorded export, plus the IDs of the assets removed since
+  --since <date>        Export only the assets changed since this date, e.g. 2026-01-31
+  --demo                Use the bundled sample library instead of Frontify; no domain, token or library needed
+  -h, --help            Show this help
+`;
+
+/**
+ * Raised for wrong arguments; printed with the usage and exit code 2
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+const parseCommandLine = () =>
+    parseArgs({
+        allowPositionals: true,
+        options: {
+            domain: { type: 'string' },
+            token: { type: 'string' },
+            library: { type: 'string' },
+            format: { type: 'string', default: 'csv' },
+            output: { type: 'string', short: 'o' },
+            limit: { type: 'string' },
+            watermark: { type: 'string' },
+            since: { type: 'string' },
+            demo: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+type CommandLine = ReturnType<typeof parseCommandLine>;
+
+// The VITE_ names are the ones the former debug-metadata.mjs script read, so existing .env files keep working
+const getSetting = (flag: string | undefined, name: string, legacyName: string): string => {
+    const value = flag ?? process.env[name] ?? process.env[legacyName];
+    if (!value) {
+        throw new UsageError(`Missing ${name}: set it in the environment or pass it as a flag`);
+    }
+    return value;
+};
+
+const createService = ({ values }: CommandLine): FrontifyService =>
+    new FrontifyService(
+        values.demo
+            ? new FixtureDataSource()
+            : new GraphQLDataSource(
+                  getSetting(values.domain, 'FRONTIFY_DOMAIN', 'VITE_FRONTIFY_DOMAIN'),
+                  { type: 'token', token: getSetting(values.token, 'FRONTIFY_TOKEN', 'VITE_FRONTIFY_BEARER_TOKEN') },
+                  getSetting(values.library, 'FRONTIFY_LIBRARY_ID', 'VITE_LIBRARY_ID'),
+                  { onPartialData: (error) => console.error(`Warning: ${error.message}`) },
+              ),
+        { onWarning: (message) => console.error(`Warning: ${message}`) },
+    );
+
+const findCollection = async (service: FrontifyService, idOrName: string): Promise<FrontifyCollection> => {
+    const collections = await service.fetchCollections();
+    const collection =
+        collections.find((candidate) => candidate.id === idOrName) ??
+        collections.find((candidate) => candidate.name === idOrName);
+    if (!collection) {
+        throw new UsageError(`No collection with the ID or name "${idOrName}". Run list-collections to see them.`);
+    }
+    return collection;
+};
+
+const reportProgress = ({ loaded, total }: { loaded: number; total: number }) => {
+    process.stderr.write(`\rFetched ${loaded.toLocaleString('en')} / ${total.toLocaleString('en')} assets`);
+    if (loaded >= total) {
+        process.stderr.write('\n');
+    }
+};
+
+/**
+ * Write to the given file, into the given directory under the export's own file name, or to standard output
+ */
+const writeOutput = (output: string | undefined, filename: string, content: string | Uint8Array): void => {
+    if (!output || output === '-') {
+        process.stdout.write(content);
+        return;
+    }
+    const path = existsSync(output) && statSync(output).isDirectory() ? join(output, filename) : output;
+    writeFileSync(path, content);
+    console.error(`Wrote ${path}`);
+};
+
+const listCollections = async (commandLine: CommandLine): Promise<void> => {
+    const collections = await createService(commandLine).fetchCollections();
+    for (const collection of collections) {
+        process.stdout.write(`${collection.id}\t${collection.assetCount}\t${collection.name}\n`);
+    }
+};
+
+/**
+ * The watermark a previous export with --watermark wrote, or null before the first one
+ */
+const readWatermark = (path: string, collectionId: string): ExportWatermark | null => {
+    if (!existsSync(path)) {
+        return null;
+    }
+    const watermark = JSON.parse(readFileSync(path, 'utf8')) as ExportWatermark;
+    if (watermark.scopeId !== collectionId) {
+        throw new UsageError(`${path} records an export of another collection (${watermark.scopeId})`);
+    }
+    return watermark;
+};
+
+const exportCollection = async (commandLine: CommandLine): Promise<void> => {
+    const [idOrName] = commandLine.positionals.slice(1);
+    if (!idOrName) {
+        throw new UsageError('export-collection needs a collection ID or name');
+    }
+    const format = commandLine.values.format as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+        throw new UsageError(`Unknown format "${format}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const service = createService(commandLine);
+    const collection = await findCollection(service, idOrName);
+    const { watermark: watermarkPath, since } = commandLine.values;
+    const baseline = watermarkPath ? readWatermark(watermarkPath, collection.id) : null;
+    const allAssets = await service.fetchCollectionAssets(collection.id, reportProgress);
+
+    let assets = allAssets;
+    let changes: ExportChanges | null = null;
+    // --since takes precedence; the watermark then only supplies the removed assets, if it is older
+    const cutoff = since ?? (baseline && getWatermarkCutoff(baseline));
+    if (cutoff) {
+        ({ assets, changes } = selectChangedAssets(
+            allAssets,
+            cutoff,
+            since && baseline ? findBaselineWatermark([baseline], since) : baseline,
+        ));
+        console.error(
+            `${assets.length.toLocaleString('en')} of ${allAssets.length.toLocaleString('en')} assets changed`,
+        );
+        if (changes.removedAssetIds === null) {
+            console.error('Warning: no watermark recorded before that date, so removed assets are not listed');
+        }
+    }
+
+    const file = service.createExportFile(
+        format,
+        assets,
+        {
+            scope: 'collection',
+            name: collection.name,
+            collections: [{ id: collection.id, name: collection.name }],
+        },
+        { changes },
+    );
+
+    writeOutput(commandLine.values.output, file.filename, file.content);
+    if (watermarkPath) {
+        writeFileSync(watermarkPath, `${JSON.stringify(createExportWatermark(collection.id, allAssets), null, 2)}\n`);
+        console.error(`Recorded the export in ${watermarkPath}`);
+    }
+};
+
+/**
+ * Replaces debug-metadata.mjs: shows how the API returns custom metadata, using the service's own queries
+ */
+const inspectMetadata = async (commandLine: CommandLine): Promise<void> => {
+    const limit = Number.parseInt(commandLine.values.limit ?? '', 10) || DEFAULT_INSPECT_LIMIT;
+    const service = createService(commandLine);
+    const properties = await service.fetchCustomMetadataProperties();
+
+    // Without a collection, the first one with assets
+    const [idOrName] = commandLine.positionals.slice(1);
+    const collections = idOrName ? [await findCollection(service, idOrName)] : await service.fetchCollections();
+    const collection = collections.find((candidate) => candidate.assetCount > 0) ?? collections[0];
+    const assetIds = collection ? await service.fetchCollectionAssetIds(collection.id) : [];
+    const assets = assetIds.length > 0 ? await service.fetchAssetsByIds(assetIds.slice(0, limit)) : [];
+
+    const report = {
+        properties,
+        collection: collection ? { id: collection.id, name: collection.name } : null,
+        assets: assets.map((asset) => ({ id: asset.id, title: asset.title, customMetadata: asset.customMetadata })),
+    };
+    writeOutput(commandLine.values.output, 'custom_metadata.json', `${JSON.stringify(report, null, 2)}\n`);
+};
+
+const COMMANDS: Record<string, (commandLine: CommandLine) => Promise<void>> = {
+    'list-collections': listCollections,
+    'export-collection': exportCollection,
+    'inspect-metadata': inspectMetadata,
+};
+
+const main = async (): Promise<void> => {
+    if (existsSync('.env')) {
+        process.loadEnvFile('.env');
+    }
+    // The service logs its progress with console.log; keep standard output for the exported file
+    console.log = console.error;
+    console.info = console.error;
+
+    try {
+        const commandLine = parseCommandLine();
+        const command = COMMANDS[commandLine.positionals[0] ?? ''];
+        if (commandLine.values.help) {
+            process.stdout.write(USAGE);
+            return;
+        }
+        if (!command) {
+            throw new UsageError(`Unknown command "${commandLine.positionals[0] ?? ''}"`);
+        }
+        await command(commandLine);
+    } catch (error) {
+        // parseArgs throws these for unknown or incomplete options
+        const isParseError =
+            error instanceof Error &&
+            'code' in error &&
+            typeof error.code === 'string' &&
+            error.code.startsWith('ERR_PARSE_ARGS');
+        if (error instanceof UsageError || isParseError) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            process.exitCode = 2;
+        } else {
+            console.error(`Error: ${getErrorGuidance(error)}`);
+            process.exitCode = 1;
+        }
+    }
+};
+
+await main();
@@ -0,0 +1,38 @@
+/**
+ * Split a list into consecutive chunks of at most `size` items.
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+    const chunkSize = Math.max(1, Math.floor(size));
+    const chunks: T[][] = [];
+
+    for (let index = 0; index < items.length; index += chunkSize) {
+        chunks.push(items.slice(index, index + chunkSize));
+    }
+
+    return chunks;
+};
+
+/**
+ * Run `worker` for every item with at most `limit` calls in flight at once.
+ * Results keep the order of `items`, regardless of the order in which the calls settle.
+ */
+export const mapWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+    const results: R[] = [];
+    let nextIndex = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+    await Promise.all(Array.from({ length: workerCount }, () => runNext()));
+
+    return results;
+};
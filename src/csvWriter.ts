@@ -0,0 +1,66 @@
+export interface CsvDialect {
+    delimiter: string;
+    /** Quote every cell, not only those containing the delimiter, quotes or line breaks */
+    quoteAll: boolean;
+    lineEnding: '\n' | '\r\n';
+    /** Start the file with a UTF-8 byte order mark, so Excel doesn't read it as ANSI and garble umlauts */
+    bom: boolean;
+    /** Prefix cells that a spreadsheet would run as a formula with `'` */
+    neutralizeFormulas: boolean;
+}
+
+export const CSV_DELIMITERS: Record<string, string> = {
+    comma: ',',
+    semicolon: ';',
+    tab: '\t',
+};
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+    delimiter: ',',
+    quoteAll: false,
+    lineEnding: '\n',
+    bom: false,
+    neutralizeFormulas: true,
+};
+
+// Cells starting with one of these are run as formulas by Excel, LibreOffice and Google Sheets (CSV injection)
+const FORMULA_PREFIX = /^[\t\r+=@-]/;
+
+// Plain numbers such as -12.5 start with "-" or "+" but can't run anything, so they stay as they are
+const PLAIN_NUMBER = /^[+-]?\d+(?:\.\d+)?$/;
+
+const isFormula = (value: string): boolean => FORMULA_PREFIX.test(value) && !PLAIN_NUMBER.test(value);
+
+/**
+ * Escape one cell: neutralize formulas, then quote the cell if it contains the delimiter, a quote or a line break,
+ * or always with `quoteAll`
+ */
+export const escapeCsvValue = (value: string, dialect: CsvDialect): string => {
+    const cell = dialect.neutralizeFormulas && isFormula(value) ? `'${value}` : value;
+    if (
+        dialect.quoteAll ||
+        cell.includes(dialect.delimiter) ||
+        cell.includes('"') ||
+        cell.includes('\n') ||
+        cell.includes('\r')
+    ) {
+        return `"${cell.replaceAll('"', '""')}"`;
+    }
+    return cell;
+};
+
+/**
+ * Write rows of cells as CSV text in the given dialect
+ */
+export const createCsvContent = (rows: string[][], dialect: CsvDialect = DEFAULT_CSV_DIALECT): string =>
+    (dialect.bom ? '\uFEFF' : '') +
+    rows
+        .map((row) => row.map((cell) => escapeCsvValue(cell, dialect)).join(dialect.delimiter))
+        .join(dialect.lineEnding);
+
+/**
+ * Undo the `'` prefix escapeCsvValue puts before formulas, so a file exported by this block imports its
+ * values unchanged
+ */
+export const restoreNeutralizedFormula = (value: string): string =>
+    value.startsWith("'") && isFormula(value.slice(1)) ? value.slice(1) : value;
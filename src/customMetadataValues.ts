@@ -0,0 +1,137 @@
+import { type CustomMetadataPropertyDefinition } from './types';
+
+/** Separator between the values of multi-value custom metadata in CSV and XLSX cells */
+export const DEFAULT_MULTI_VALUE_SEPARATOR = '; ';
+
+export const MULTI_VALUE_SEPARATORS: Record<string, string> = {
+    semicolon: '; ',
+    comma: ', ',
+    pipe: ' | ',
+    newline: '\n',
+};
+
+type PropertyKind = 'select' | 'number' | 'date' | 'boolean' | 'text' | 'unknown';
+
+/**
+ * Group the GraphQL property type names (CustomMetadataPropertyTypeText, ...TypeMultiSelect, ...) by how they serialize
+ */
+const getPropertyKind = (property?: CustomMetadataPropertyDefinition): PropertyKind => {
+    const type = property?.type ?? '';
+    if (type.includes('Select')) {
+        return 'select';
+    }
+    if (type.includes('Number')) {
+        return 'number';
+    }
+    if (type.includes('Date')) {
+        return 'date';
+    }
+    if (type.includes('Boolean')) {
+        return 'boolean';
+    }
+    return type ? 'text' : 'unknown';
+};
+
+// Option objects carry the option text as `text` or `value`, depending on the API version
+const getOptionText = (value: object): string | undefined => {
+    const option = value as { text?: unknown; value?: unknown };
+    if (typeof option.text === 'string') {
+        return option.text;
+    }
+    return typeof option.value === 'string' ? option.value : undefined;
+};
+
+const serializeSelectValue = (value: unknown, property?: CustomMetadataPropertyDefinition): string | undefined => {
+    const reference =
+        typeof value === 'object' && value !== null ? (value as { optionId?: unknown; id?: unknown }) : undefined;
+    const id = typeof value === 'string' ? value : (reference?.optionId ?? reference?.id);
+    const option = property?.options.find((candidate) => candidate.id === id);
+    if (option) {
+        return option.value;
+    }
+    if (typeof value === 'string') {
+        return value;
+    }
+    return typeof value === 'object' && value !== null ? getOptionText(value) : undefined;
+};
+
+const serializeNumber = (value: unknown): string | undefined => {
+    const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? String(number) : undefined;
+};
+
+/**
+ * Dates as ISO 8601 calendar dates (YYYY-MM-DD); date-only strings are kept as they are to avoid time zone shifts
+ */
+const serializeDate = (value: unknown): string | undefined => {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return undefined;
+    }
+    const dateOnly = typeof value === 'string' ? /^\d{4}-\d{2}-\d{2}$/.exec(value.trim())?.[0] : undefined;
+    if (dateOnly) {
+        return dateOnly;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+const serializeBoolean = (value: unknown): string | undefined => {
+    if (typeof value === 'boolean') {
+        return String(value);
+    }
+    const text = typeof value === 'string' || typeof value === 'number' ? String(value).trim().toLowerCase() : '';
+    if (['true', '1', 'yes'].includes(text)) {
+        return 'true';
+    }
+    return ['false', '0', 'no'].includes(text) ? 'false' : undefined;
+};
+
+const serializeText = (value: unknown): string | undefined => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    return typeof value === 'object' && value !== null ? getOptionText(value) : undefined;
+};
+
+const SERIALIZERS: Record<
+    PropertyKind,
+    (value: unknown, property?: CustomMetadataPropertyDefinition) => string | undefined
+> = {
+    select: serializeSelectValue,
+    number: serializeNumber,
+    date: serializeDate,
+    boolean: serializeBoolean,
+    text: serializeText,
+    unknown: serializeText,
+};
+
+/**
+ * Serialize the raw values of one custom metadata field following the property's declared type:
+ * option IDs resolve to option texts, numbers are written without grouping and with a `.` decimal separator,
+ * dates as YYYY-MM-DD and booleans as true/false. Without a definition, values are serialized by their shape.
+ * `values` lists the serialized values separately, `value` joins them with `separator`.
+ * Values that don't fit are left out and returned in `unexpectedValues`, so callers can warn about them.
+ */
+export const serializeCustomMetadataValues = (
+    rawValues: unknown[],
+    property: CustomMetadataPropertyDefinition | undefined,
+    separator = DEFAULT_MULTI_VALUE_SEPARATOR,
+): { value: string; values: string[]; unexpectedValues: unknown[] } => {
+    const serialize = SERIALIZERS[getPropertyKind(property)];
+    const texts: string[] = [];
+    const unexpectedValues: unknown[] = [];
+
+    for (const rawValue of rawValues) {
+        if (rawValue === null || rawValue === undefined || rawValue === '') {
+            continue;
+        }
+        const text = serialize(rawValue, property);
+        if (text === undefined) {
+            unexpectedValues.push(rawValue);
+        } else {
+            texts.push(text);
+        }
+    }
+
+    return { value: texts.join(separator), values: texts, unexpectedValues };
+};
@@ -0,0 +1,17 @@
+import { type ExportFile } from './types';
+
+/**
+ * Trigger a browser download for a file created by FrontifyService. Kept out of the service,
+ * which only serializes, so the export logic also runs in Node (see src/cli.ts).
+ */
+export const downloadExportFile = ({ content, mimeType, filename }: ExportFile): void => {
+    const blob = new Blob([typeof content === 'string' ? content : new Uint8Array(content)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
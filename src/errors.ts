@@ -0,0 +1,214 @@
+export interface GraphQLErrorEntry {
+    message: string;
+    path?: (string | number)[];
+    extensions?: Record<string, unknown>;
+}
+
+/**
+ * Base class for every error raised while talking to the Frontify API.
+ */
+export class FrontifyApiError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'FrontifyApiError';
+        this.status = status;
+    }
+}
+
+/**
+ * The token is missing, malformed, expired or revoked (HTTP 401).
+ */
+export class AuthenticationError extends FrontifyApiError {
+    constructor(message = 'The API token was rejected by Frontify.', status?: number) {
+        super(message, status);
+        this.name = 'AuthenticationError';
+    }
+}
+
+/**
+ * Requests made as the signed-in user were rejected: nobody is signed in, or the session expired (HTTP 401).
+ */
+export class SessionAuthenticationError extends AuthenticationError {
+    constructor(status?: number) {
+        super('Frontify did not accept the session of the signed-in user.', status);
+        this.name = 'SessionAuthenticationError';
+    }
+}
+
+/**
+ * The token is valid but lacks the scope or permission needed for the request (HTTP 403 or a scope error).
+ */
+export class PermissionError extends FrontifyApiError {
+    readonly requiredScope?: string;
+
+    constructor(message: string, requiredScope?: string, status?: number) {
+        super(message, status);
+        this.name = 'PermissionError';
+        this.requiredScope = requiredScope;
+    }
+}
+
+/**
+ * The signed-in user's Frontify permissions don't allow the request (HTTP 403 or a permission error).
+ */
+export class SessionPermissionError extends PermissionError {
+    constructor(message = 'The signed-in user is not allowed to perform this request.', status?: number) {
+        super(message, undefined, status);
+        this.name = 'SessionPermissionError';
+    }
+}
+
+/**
+ * The configured library ID does not resolve to a library the token can see.
+ */
+export class LibraryNotFoundError extends FrontifyApiError {
+    readonly libraryId: string;
+
+    constructor(libraryId: string) {
+        super(`Library "${libraryId}" was not found.`);
+        this.name = 'LibraryNotFoundError';
+        this.libraryId = libraryId;
+    }
+}
+
+/**
+ * The API kept answering with HTTP 429 after all retries were used up.
+ */
+export class RateLimitError extends FrontifyApiError {
+    readonly retryAfterMs?: number;
+
+    constructor(retryAfterMs?: number) {
+        super('Frontify rate limit exceeded.', 429);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class RequestTimeoutError extends FrontifyApiError {
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`Request to Frontify timed out after ${Math.round(timeoutMs / 1000)}s.`);
+        this.name = 'RequestTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * The request never reached Frontify (offline, DNS, CORS) or the server failed with a 5xx status.
+ */
+export class NetworkError extends FrontifyApiError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * The GraphQL response contained errors and no usable data.
+ */
+export class GraphQLResponseError extends FrontifyApiError {
+    readonly errors: GraphQLErrorEntry[];
+
+    constructor(errors: GraphQLErrorEntry[]) {
+        super(`GraphQL error: ${errors.map((error) => error.message).join(', ')}`);
+        this.name = 'GraphQLResponseError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * The GraphQL response contained errors alongside data.
+ * Not thrown: the data is kept and this error is reported as a warning instead.
+ */
+export class PartialDataError extends FrontifyApiError {
+    readonly errors: GraphQLErrorEntry[];
+
+    constructor(errors: GraphQLErrorEntry[]) {
+        super(`Frontify returned partial data: ${errors.map((error) => error.message).join(', ')}`);
+        this.name = 'PartialDataError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * The export destination could not be reached or did not accept the file. Not a Frontify error:
+ * the export itself succeeded.
+ */
+export class ExportDestinationError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ExportDestinationError';
+        this.status = status;
+    }
+}
+
+const SCOPE_PATTERN = /\b(basic:(?:read|write)[\w:-]*)\b/i;
+
+/**
+ * Turn GraphQL errors without data into the most specific error class we can recognise.
+ */
+export const classifyGraphQLErrors = (errors: GraphQLErrorEntry[]): FrontifyApiError => {
+    for (const error of errors) {
+        const code = typeof error.extensions?.code === 'string' ? error.extensions.code.toUpperCase() : '';
+        const scope = SCOPE_PATTERN.exec(error.message)?.[1];
+
+        if (code === 'UNAUTHENTICATED') {
+            return new AuthenticationError(error.message);
+        }
+        if (code === 'FORBIDDEN' || scope || /scope|permission|not allowed|forbidden/i.test(error.message)) {
+            return new PermissionError(error.message, scope);
+        }
+    }
+
+    return new GraphQLResponseError(errors);
+};
+
+/**
+ * User-facing guidance for an error, telling the reader what to change rather than what failed.
+ */
+export const getErrorGuidance = (error: unknown): string => {
+    if (error instanceof SessionAuthenticationError) {
+        return 'You are not signed in to Frontify, or your session has expired. Sign in and reload the page.';
+    }
+    if (error instanceof AuthenticationError) {
+        return 'The API token was rejected. Check that it was copied completely and has not been revoked, then update it in the block settings.';
+    }
+    if (error instanceof SessionPermissionError) {
+        return 'Your Frontify account is not allowed to do this. Ask an owner of the library for access, or for edit rights to change assets.';
+    }
+    if (error instanceof PermissionError) {
+        return error.requiredScope
+            ? `The API token lacks the ${error.requiredScope} scope. Create a token with this scope and update it in the block settings.`
+            : 'The API token lacks basic:read, or the token owner cannot access this library. Create a token with the basic:read scope and update it in the block settings.';
+    }
+    if (error instanceof LibraryNotFoundError) {
+        return 'The configured library was not found. Check the Library ID in the block settings and that the token owner can access this library.';
+    }
+    if (error instanceof RateLimitError) {
+        return 'Frontify is rate limiting requests. Wait a minute and try again, or lower "Parallel Requests" in the block settings.';
+    }
+    if (error instanceof RequestTimeoutError) {
+        return `${error.message} Try again, or lower "Assets per Request" in the block settings.`;
+    }
+    if (error instanceof NetworkError) {
+        return `Could not reach Frontify (${error.message}). Check your connection and try again.`;
+    }
+    if (error instanceof ExportDestinationError) {
+        return error.status === 401 || error.status === 403
+            ? `${error.message} Check the authentication of the export destination in the block settings.`
+            : `${error.message} Check the export destination in the block settings, or switch it back to browser download.`;
+    }
+    if (error instanceof Error) {
+        return error.message;
+    }
+
+    return 'An unknown error occurred.';
+};
@@ -0,0 +1,44 @@
+import { type ExportColumn } from './types';
+
+/**
+ * One column per custom metadata property, keyed by property ID so properties sharing a name keep separate columns.
+ * Sorted by name, then ID, so the columns only change when the library's properties do, not with the exported
+ * assets. Names used by more than one property are labelled `Name (property ID)`. Repeated IDs are listed once.
+ */
+export const getCustomMetadataColumns = (properties: { id: string; name: string }[]): ExportColumn[] => {
+    const propertiesById = new Map<string, { id: string; name: string }>();
+    for (const property of properties) {
+        if (!propertiesById.has(property.id)) {
+            propertiesById.set(property.id, property);
+        }
+    }
+
+    const uniqueProperties = [...propertiesById.values()].sort(
+        (first, second) => first.name.localeCompare(second.name, 'en') || (first.id < second.id ? -1 : 1),
+    );
+    const nameCounts = new Map<string, number>();
+    for (const { name } of uniqueProperties) {
+        nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+    }
+
+    return uniqueProperties.map(({ id, name }) => ({
+        key: id,
+        label: (nameCounts.get(name) ?? 0) > 1 ? `${name} (${id})` : name,
+    }));
+};
+
+/**
+ * Key of the column that a profile, filter, file name pattern or file header refers to: a column key, or a column
+ * label such as a custom metadata property name. A name shared by several properties refers to the first of them.
+ * Unknown keys are returned as they are.
+ */
+export const resolveColumnKey = (key: string, columns: ExportColumn[]): string => {
+    const trimmedKey = key.trim();
+    if (columns.some((column) => column.key === trimmedKey)) {
+        return trimmedKey;
+    }
+    const column =
+        columns.find((candidate) => candidate.label === trimmedKey) ??
+        columns.find((candidate) => candidate.label === `${trimmedKey} (${candidate.key})`);
+    return column?.key ?? trimmedKey;
+};
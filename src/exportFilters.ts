@@ -0,0 +1,160 @@
+import { DEFAULT_MULTI_VALUE_SEPARATOR } from './customMetadataValues';
+import { resolveColumnKey } from './exportColumns';
+import {
+    type AssetForExport,
+    type ExportColumn,
+    type ExportFilter,
+    type FilterCondition,
+    type FilterOperator,
+} from './types';
+
+/**
+ * Operators as written in the "Export Profiles" setting, e.g. `where status = Approved`
+ */
+export const FILTER_OPERATOR_SYNTAX: Record<FilterOperator, string> = {
+    equals: '=',
+    notEquals: '!=',
+    contains: 'contains',
+    notContains: 'not contains',
+    lessThan: '<',
+    greaterThan: '>',
+    isEmpty: 'is empty',
+    isNotEmpty: 'is not empty',
+};
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+    equals: 'is',
+    notEquals: 'is not',
+    contains: 'contains',
+    notContains: 'does not contain',
+    lessThan: 'is before / less than',
+    greaterThan: 'is after / greater than',
+    isEmpty: 'is empty',
+    isNotEmpty: 'is not empty',
+};
+
+const VALUELESS_OPERATORS = new Set<FilterOperator>(['isEmpty', 'isNotEmpty']);
+
+// Longer operators first, so "!=" is not read as "=" and "not contains" not as "contains"
+const CONDITION_PATTERN = /^(.+?)\s+(!=|=|<|>|not contains|contains|is not empty|is empty)(?:\s+(.*))?$/;
+
+// prepareAssetsForExport joins tags and licenses with ", ", collections with "; " and every other multi-value field
+// with the service's multiValueSeparator
+const FIXED_SEPARATORS: Record<string, string> = { tags: ', ', licenses: ', ', collection: '; ' };
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export const EMPTY_EXPORT_FILTER: ExportFilter = { match: 'all', conditions: [] };
+
+export const operatorTakesValue = (operator: FilterOperator): boolean => !VALUELESS_OPERATORS.has(operator);
+
+/**
+ * Parse a filter condition written as `<column key> <operator> <value>`, e.g. `expiresAt < 2027-01-01`
+ */
+export const parseFilterCondition = (text: string): FilterCondition | null => {
+    const match = CONDITION_PATTERN.exec(text.trim());
+    if (!match) {
+        return null;
+    }
+
+    const operator = (Object.keys(FILTER_OPERATOR_SYNTAX) as FilterOperator[]).find(
+        (candidate) => FILTER_OPERATOR_SYNTAX[candidate] === match[2],
+    );
+    if (!operator) {
+        return null;
+    }
+
+    return { key: match[1].trim(), operator, value: operatorTakesValue(operator) ? (match[3] ?? '').trim() : '' };
+};
+
+export const formatFilterCondition = ({ key, operator, value }: FilterCondition): string =>
+    [key, FILTER_OPERATOR_SYNTAX[operator], operatorTakesValue(operator) ? value : ''].join(' ').trim();
+
+/**
+ * Whether the filter has at least one complete condition; incomplete conditions are ignored when matching
+ */
+export const isFilterActive = (filter: ExportFilter | null | undefined): filter is ExportFilter =>
+    Boolean(filter?.conditions.some((condition) => condition.key.trim()));
+
+const getListValues = (key: string, value: string, multiValueSeparator: string): string[] =>
+    value.split(FIXED_SEPARATORS[key] ?? multiValueSeparator).map((item) => item.trim());
+
+/**
+ * Compare as numbers when both sides are numeric, as dates when both are dates, otherwise as text
+ */
+const compareValues = (fieldValue: string, conditionValue: string): number => {
+    const fieldNumber = Number(fieldValue);
+    const conditionNumber = Number(conditionValue);
+    if (conditionValue !== '' && Number.isFinite(fieldNumber) && Number.isFinite(conditionNumber)) {
+        return fieldNumber - conditionNumber;
+    }
+
+    const fieldDate = Date.parse(fieldValue);
+    const conditionDate = Date.parse(conditionValue);
+    if (!Number.isNaN(fieldDate) && !Number.isNaN(conditionDate)) {
+        return fieldDate - conditionDate;
+    }
+
+    return collator.compare(fieldValue, conditionValue);
+};
+
+const matchesCondition = (
+    exportData: AssetForExport,
+    { key, operator, value }: FilterCondition,
+    columns: ExportColumn[],
+    multiValueSeparator: string,
+): boolean => {
+    const columnKey = resolveColumnKey(key, columns);
+    const fieldValue = String(exportData[columnKey] ?? '').trim();
+    const conditionValue = value.trim();
+
+    // "is" matches the whole value or any single tag / option of a multi-value field
+    const equals = () =>
+        [fieldValue, ...getListValues(columnKey, fieldValue, multiValueSeparator)].some(
+            (candidate) => collator.compare(candidate, conditionValue) === 0,
+        );
+    const contains = () => fieldValue.toLowerCase().includes(conditionValue.toLowerCase());
+
+    switch (operator) {
+        case 'equals':
+            return equals();
+        case 'notEquals':
+            return !equals();
+        case 'contains':
+            return contains();
+        case 'notContains':
+            return !contains();
+        case 'lessThan':
+            return fieldValue !== '' && compareValues(fieldValue, conditionValue) < 0;
+        case 'greaterThan':
+            return fieldValue !== '' && compareValues(fieldValue, conditionValue) > 0;
+        case 'isEmpty':
+            return fieldValue === '';
+        case 'isNotEmpty':
+            return fieldValue !== '';
+        default:
+            return false;
+    }
+};
+
+/**
+ * Whether one asset's flattened export data (from prepareAssetsForExport) matches the filter.
+ * Condition keys naming a column label, such as a custom metadata property name, are resolved with `columns`.
+ * `multiValueSeparator` is the one the export data was flattened with, so "is" can match single options.
+ * Filters without complete conditions match every asset.
+ */
+export const matchesExportFilter = (
+    exportData: AssetForExport,
+    filter: ExportFilter | null | undefined,
+    columns: ExportColumn[] = [],
+    multiValueSeparator = DEFAULT_MULTI_VALUE_SEPARATOR,
+): boolean => {
+    if (!isFilterActive(filter)) {
+        return true;
+    }
+
+    const conditions = filter.conditions.filter((condition) => condition.key.trim());
+    return filter.match === 'any'
+        ? conditions.some((condition) => matchesCondition(exportData, condition, columns, multiValueSeparator))
+        : conditions.every((condition) => matchesCondition(exportData, condition, columns, multiValueSeparator));
+};
@@ -0,0 +1,211 @@
+import { resolveColumnKey } from './exportColumns';
+import { formatFilterCondition, parseFilterCondition } from './exportFilters';
+import { type AssetForExport, type ExportColumn, type ExportFilter, type ExportProfile } from './types';
+
+/**
+ * Columns prepareAssetsForExport writes for every asset, in export order, before any custom metadata columns
+ */
+export const STANDARD_COLUMN_KEYS = [
+    'id',
+    'title',
+    'description',
+    'status',
+    'createdAt',
+    'modifiedAt',
+    'expiresAt',
+    'copyrightStatus',
+    'copyrightNotice',
+    'previewUrl',
+    'downloadUrl',
+    'alternativeText',
+    'duration',
+    'tags',
+    'licenses',
+];
+
+// Columns holding ISO timestamps, written as date cells in XLSX exports
+export const DATE_COLUMNS = new Set(['createdAt', 'modifiedAt', 'expiresAt']);
+
+// Columns that only exist on some asset types, see the `... on Image` / `... on Video` fragments in frontifyService
+export const TYPE_SPECIFIC_COLUMNS: Record<string, string[]> = {
+    alternativeText: ['Image', 'Video'],
+    duration: ['Video'],
+};
+
+export interface ParsedExportProfiles {
+    profiles: ExportProfile[];
+    errors: string[];
+}
+
+const PROFILE_HEADING = /^\[(.+)]$/;
+const MATCH_LINE = /^match\s+(all|any)$/;
+const WHERE_LINE = /^where\s+(.*)$/;
+
+/**
+ * Parse the "Export Profiles" block setting.
+ *
+ * A profile starts with its name in square brackets, followed by one column per line in export order.
+ * Each column line is a column key (a standard field such as `title`, or a custom metadata property name or ID),
+ * optionally followed by `=` and the header label to use. Empty lines and lines starting with `#` are ignored.
+ *
+ * `where <column key> <operator> <value>` lines add a row filter, and `match any` combines its conditions
+ * with OR instead of AND. A profile with a filter but no columns exports every available column.
+ *
+ *     [Print Vendor]
+ *     id = Asset ID
+ *     title = Title
+ *     copyrightNotice = Credit
+ *     Region
+ *     where status = Approved
+ *     where expiresAt < 2027-01-01
+ */
+export const parseExportProfiles = (text: string | undefined): ParsedExportProfiles => {
+    const profiles: ExportProfile[] = [];
+    const errors: string[] = [];
+    let current: ExportProfile | null = null;
+
+    for (const [index, rawLine] of (text ?? '').split(/\r?\n/).entries()) {
+        const line = rawLine.trim();
+        const lineNumber = index + 1;
+
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const heading = PROFILE_HEADING.exec(line);
+        if (heading) {
+            const name = heading[1].trim();
+            if (profiles.some((profile) => profile.name === name)) {
+                errors.push(`Line ${lineNumber}: profile "${name}" is defined more than once.`);
+            }
+            current = { name, columns: [] };
+            profiles.push(current);
+            continue;
+        }
+
+        if (!current) {
+            errors.push(`Line ${lineNumber}: "${line}" is not inside a profile. Start a profile with [Profile Name].`);
+            continue;
+        }
+
+        const matchLine = MATCH_LINE.exec(line);
+        if (matchLine) {
+            current.filter = {
+                match: matchLine[1] as ExportFilter['match'],
+                conditions: current.filter?.conditions ?? [],
+            };
+            continue;
+        }
+
+        const whereLine = WHERE_LINE.exec(line);
+        if (whereLine) {
+            const condition = parseFilterCondition(whereLine[1]);
+            if (condition) {
+                current.filter = {
+                    match: current.filter?.match ?? 'all',
+                    conditions: [...(current.filter?.conditions ?? []), condition],
+                };
+            } else {
+                errors.push(
+                    `Line ${lineNumber}: "${line}" is not a valid filter. Use "where <column> <operator> <value>", e.g. "where status = Approved".`,
+                );
+            }
+            continue;
+        }
+
+        const separatorIndex = line.indexOf('=');
+        const key = (separatorIndex === -1 ? line : line.slice(0, separatorIndex)).trim();
+        const label = separatorIndex === -1 ? key : line.slice(separatorIndex + 1).trim() || key;
+
+        if (!key) {
+            errors.push(`Line ${lineNumber}: missing column key before "=".`);
+            continue;
+        }
+
+        current.columns.push({ key, label });
+    }
+
+    const isUsable = (profile: ExportProfile) => profile.columns.length > 0 || Boolean(profile.filter);
+    for (const profile of profiles) {
+        if (!isUsable(profile)) {
+            errors.push(`Profile "${profile.name}" has no columns or filters.`);
+        }
+    }
+
+    return { profiles: profiles.filter(isUsable), errors };
+};
+
+const formatProfileFilter = (filter: ExportFilter): string[] => [
+    ...(filter.match === 'any' ? ['match any'] : []),
+    ...filter.conditions
+        .filter((condition) => condition.key.trim())
+        .map((condition) => `where ${formatFilterCondition(condition)}`),
+];
+
+/**
+ * Replace the filter of the named profile in the "Export Profiles" setting text, keeping its columns and comments.
+ * A profile that does not exist yet is appended with the filter and no columns.
+ */
+export const setProfileFilter = (text: string | undefined, profileName: string, filter: ExportFilter): string => {
+    const lines = (text ?? '').split(/\r?\n/);
+    const filterLines = formatProfileFilter(filter);
+    const headingIndex = lines.findIndex((line) => PROFILE_HEADING.exec(line.trim())?.[1].trim() === profileName);
+
+    if (headingIndex === -1) {
+        const existing = lines.join('\n').trimEnd();
+        return [...(existing ? [existing, ''] : []), `[${profileName}]`, ...filterLines].join('\n');
+    }
+
+    let endIndex = lines.findIndex((line, index) => index > headingIndex && PROFILE_HEADING.test(line.trim()));
+    if (endIndex === -1) {
+        endIndex = lines.length;
+    }
+
+    const section = lines
+        .slice(headingIndex + 1, endIndex)
+        .filter((line) => !MATCH_LINE.test(line.trim()) && !WHERE_LINE.test(line.trim()));
+    // Keep blank lines that separate this profile from the next one
+    const trailingBlankLines: string[] = [];
+    while (section.length > 0 && section[section.length - 1].trim() === '') {
+        trailingBlankLines.push(section.pop() ?? '');
+    }
+
+    return [
+        ...lines.slice(0, headingIndex + 1),
+        ...section,
+        ...filterLines,
+        ...trailingBlankLines,
+        ...lines.slice(endIndex),
+    ].join('\n');
+};
+
+/**
+ * Every column of an export: the standard columns, with `collection` after `id` for merged exports,
+ * then the custom metadata columns from getCustomMetadataColumns. Each standard column is labelled with its key.
+ */
+export const getDefaultColumns = (
+    exportData: AssetForExport[],
+    customMetadataColumns: ExportColumn[],
+): ExportColumn[] => {
+    const [idKey, ...otherKeys] = STANDARD_COLUMN_KEYS;
+    const standardKeys = exportData.some((data) => 'collection' in data)
+        ? [idKey, 'collection', ...otherKeys]
+        : STANDARD_COLUMN_KEYS;
+    return [...standardKeys.map((key) => ({ key, label: key })), ...customMetadataColumns];
+};
+
+/**
+ * The columns to export: the profile's columns in profile order, or every available column without a profile
+ * or with a filter-only profile. Profile columns may name custom metadata properties; they are resolved to
+ * their property ID keys.
+ */
+export const resolveExportColumns = (
+    exportData: AssetForExport[],
+    profile: ExportProfile | null | undefined,
+    customMetadataColumns: ExportColumn[],
+): ExportColumn[] => {
+    const defaultColumns = getDefaultColumns(exportData, customMetadataColumns);
+    return profile && profile.columns.length > 0
+        ? profile.columns.map((column) => ({ ...column, key: resolveColumnKey(column.key, defaultColumns) }))
+        : defaultColumns;
+};
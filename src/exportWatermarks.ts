@@ -0,0 +1,116 @@
+import { type ExportChanges, type ExportWatermark, type FrontifyAsset } from './types';
+
+/** Scope ID of watermarks recorded by exports of the entire library */
+export const LIBRARY_WATERMARK_SCOPE = 'library';
+
+// Watermarks kept per collection, newest first, to pick from in the export options
+const MAX_WATERMARKS_PER_SCOPE = 10;
+
+const STORAGE_KEY_PREFIX = 'collection-metadata-export:watermarks:';
+
+const toTime = (value: string | undefined | null): number => (value ? Date.parse(value) : Number.NaN);
+
+/**
+ * Record the state of a collection or the library at an export. `assets` must be every asset in scope,
+ * not only the exported ones, so a later export knows which assets were already there.
+ */
+export const createExportWatermark = (
+    scopeId: string,
+    assets: FrontifyAsset[],
+    exportedAt = new Date(),
+): ExportWatermark => {
+    const latestTime = assets
+        .flatMap((asset) => [toTime(asset.modifiedAt), toTime(asset.createdAt)])
+        .filter((time) => !Number.isNaN(time))
+        .reduce((latest, time) => Math.max(latest, time), Number.NEGATIVE_INFINITY);
+
+    return {
+        scopeId,
+        exportedAt: exportedAt.toISOString(),
+        latestModifiedAt: Number.isFinite(latestTime) ? new Date(latestTime).toISOString() : null,
+        assetIds: assets.map((asset) => asset.id),
+    };
+};
+
+/**
+ * Assets changed since a watermark are those modified after the latest `modifiedAt` it saw. Unlike its export
+ * time, that is Frontify's clock, so a browser clock running ahead doesn't hide changes.
+ */
+export const getWatermarkCutoff = (watermark: ExportWatermark): string =>
+    watermark.latestModifiedAt ?? watermark.exportedAt;
+
+/**
+ * The assets created or modified after `since`, plus those that were not in scope at the `baseline` export
+ * (added to a collection without being modified), and the IDs of baseline assets that are gone.
+ * Without a baseline, removed assets are unknown.
+ */
+export const selectChangedAssets = (
+    assets: FrontifyAsset[],
+    since: string,
+    baseline?: ExportWatermark | null,
+): { assets: FrontifyAsset[]; changes: ExportChanges } => {
+    const sinceTime = toTime(since);
+    if (Number.isNaN(sinceTime)) {
+        throw new TypeError(`"${since}" is not a valid date`);
+    }
+
+    const baselineIds = baseline ? new Set(baseline.assetIds) : null;
+    const currentIds = new Set(assets.map((asset) => asset.id));
+
+    return {
+        assets: assets.filter(
+            (asset) =>
+                (baselineIds !== null && !baselineIds.has(asset.id)) ||
+                toTime(asset.modifiedAt) > sinceTime ||
+                toTime(asset.createdAt) > sinceTime,
+        ),
+        changes: {
+            since: new Date(sinceTime).toISOString(),
+            removedAssetIds: baseline ? baseline.assetIds.filter((assetId) => !currentIds.has(assetId)) : null,
+        },
+    };
+};
+
+/**
+ * The watermark whose removed assets an export since `date` lists: the newest one recorded at or before the date
+ */
+export const findBaselineWatermark = (watermarks: ExportWatermark[], date: string): ExportWatermark | null =>
+    watermarks
+        .filter((watermark) => toTime(watermark.exportedAt) <= toTime(date))
+        .sort((first, second) => toTime(second.exportedAt) - toTime(first.exportedAt))[0] ?? null;
+
+const readStoredWatermarks = (libraryId: string): ExportWatermark[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY_PREFIX + libraryId);
+        const watermarks: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(watermarks) ? (watermarks as ExportWatermark[]) : [];
+    } catch (error) {
+        console.warn('Could not read the recorded export watermarks:', error);
+        return [];
+    }
+};
+
+/**
+ * The watermarks recorded in this browser for a collection or the library, newest first
+ */
+export const loadExportWatermarks = (libraryId: string, scopeId: string): ExportWatermark[] =>
+    readStoredWatermarks(libraryId)
+        .filter((watermark) => watermark.scopeId === scopeId)
+        .sort((first, second) => toTime(second.exportedAt) - toTime(first.exportedAt));
+
+/**
+ * Record a watermark in this browser, keeping the newest MAX_WATERMARKS_PER_SCOPE of its collection.
+ * Failures (storage full or disabled) are logged; the export itself has already succeeded.
+ */
+export const saveExportWatermark = (libraryId: string, watermark: ExportWatermark): void => {
+    const others = readStoredWatermarks(libraryId).filter((stored) => stored.scopeId !== watermark.scopeId);
+    const scopeWatermarks = [watermark, ...loadExportWatermarks(libraryId, watermark.scopeId)].slice(
+        0,
+        MAX_WATERMARKS_PER_SCOPE,
+    );
+    try {
+        localStorage.setItem(STORAGE_KEY_PREFIX + libraryId, JSON.stringify([...others, ...scopeWatermarks]));
+    } catch (error) {
+        console.warn('Could not record the export watermark:', error);
+    }
+};
@@ -0,0 +1,108 @@
+import { FrontifyApiError } from './errors';
+import { createSampleLibrary, type SampleLibrary } from './sampleLibrary';
+import {
+    type AssetReference,
+    type AssetUpdateData,
+    type CustomMetadataItem,
+    type CustomMetadataPropertyDefinition,
+    type FrontifyAsset,
+    type FrontifyCollection,
+    type FrontifyDataSource,
+} from './types';
+
+const DEFAULT_LATENCY_MS = 150;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Serves a library held in memory, the bundled sample library by default, for demo mode and offline development.
+ * Assets are returned as copies; metadata imports change this instance's copy of the library only.
+ */
+export class FixtureDataSource implements FrontifyDataSource {
+    readonly domain: string;
+    readonly libraryId: string;
+    private library: SampleLibrary;
+    private latencyMs: number;
+
+    /**
+     * `latencyMs` delays every response, so loading states and progress show as they do against the API
+     */
+    constructor(library: SampleLibrary = createSampleLibrary(), latencyMs = DEFAULT_LATENCY_MS) {
+        this.library = structuredClone(library);
+        this.domain = library.domain;
+        this.libraryId = library.libraryId;
+        this.latencyMs = latencyMs;
+    }
+
+    async fetchCollections(): Promise<FrontifyCollection[]> {
+        await sleep(this.latencyMs);
+        return this.library.collections.map(({ id, name, assetIds }) => ({ id, name, assetCount: assetIds.length }));
+    }
+
+    async fetchCollectionAssetRefs(collectionId: string): Promise<AssetReference[]> {
+        await sleep(this.latencyMs);
+        const collection = this.library.collections.find((candidate) => candidate.id === collectionId);
+        if (!collection) {
+            throw new FrontifyApiError('Collection not found');
+        }
+        return collection.assetIds.map((assetId) => this.getReference(assetId));
+    }
+
+    async fetchLibraryAssetRefs(): Promise<AssetReference[]> {
+        await sleep(this.latencyMs);
+        return this.library.assets.map((asset) => this.getReference(asset.id));
+    }
+
+    async fetchAssetsByIds(assetIds: string[]): Promise<FrontifyAsset[]> {
+        await sleep(this.latencyMs);
+        return assetIds.flatMap((assetId) => {
+            const asset = this.findAsset(assetId);
+            return asset ? [structuredClone(asset)] : [];
+        });
+    }
+
+    async fetchCustomMetadataProperties(): Promise<CustomMetadataPropertyDefinition[]> {
+        await sleep(this.latencyMs);
+        return structuredClone(this.library.properties);
+    }
+
+    /**
+     * Apply an update the way the `updateAsset` mutation would: a null value clears the field,
+     * lists become multi-value fields
+     */
+    async updateAsset(assetId: string, data: AssetUpdateData): Promise<void> {
+        await sleep(this.latencyMs);
+        const asset = this.findAsset(assetId);
+        if (!asset) {
+            throw new FrontifyApiError('Asset not found');
+        }
+
+        const { customMetadata, ...fields } = data;
+        Object.assign(asset, fields);
+
+        for (const { propertyId, value } of customMetadata ?? []) {
+            const property = this.library.properties.find((candidate) => candidate.id === propertyId);
+            const others = (asset.customMetadata ?? []).filter((item) => item.property.id !== propertyId);
+            const item: CustomMetadataItem | null =
+                value === null
+                    ? null
+                    : {
+                          property: { id: propertyId, name: property?.name ?? propertyId },
+                          ...(Array.isArray(value)
+                              ? { __typename: 'CustomMetadataValues', values: value }
+                              : { __typename: 'CustomMetadataValue', value }),
+                      };
+            asset.customMetadata = item ? [...others, item] : others;
+        }
+
+        asset.modifiedAt = new Date().toISOString();
+    }
+
+    private getReference(assetId: string): AssetReference {
+        return { id: assetId, modifiedAt: this.findAsset(assetId)?.modifiedAt };
+    }
+
+    private findAsset(assetId: string): FrontifyAsset | undefined {
+        return this.library.assets.find((asset) => asset.id === assetId);
+    }
+}
@@ -1,272 +1,515 @@
-import type { FrontifyCollection, FrontifyAsset, AssetForExport } from './types';
-
-// GraphQL Queries
-const LIBRARY_COLLECTIONS_QUERY = `
-  query GetLibraryCollections($libraryId: ID!) {
-    library(id: $libraryId) {
-      collections {
-        total
-        items {
-          id
-          name
-          assets {
-            total
-          }
-        }
-      }
-    }
-  }
-`;
-
-const COLLECTION_ASSETS_QUERY = `
-  query GetCollectionAssetIds($libraryId: ID!) {
-    library(id: $libraryId) {
-      collections {
-        items {
-          id
-          name
-          assets {
-            items {
-              id
-            }
-          }
-        }
-      }
-    }
-  }
-`;
-
-const ASSETS_BY_IDS_QUERY = `
-  query GetAssetsByIds($ids: [ID!]!) {
-    assets(ids: $ids) {
-      id
-      title
-      description
-      createdAt
-      modifiedAt
-      copyright {
-        status
-        notice
-      }
-      expiresAt
-      customMetadata {
-        property {
-          id
-          name
-        }
-        ... on CustomMetadataValue {
-          __typename
-          value
-        }
-        ... on CustomMetadataValues {
-          __typename
-          values
-        }
-      }
-      tags {
-        value
-        source
-      }
-      ... on Image {
-        alternativeText
-        previewUrl
-        downloadUrl
-      }
-      ... on Video {
-        alternativeText
-        previewUrl
-        downloadUrl
-        duration
-      }
-      ... on Document {
-        previewUrl
-        downloadUrl
-      }
-      ... on Audio {
-        previewUrl
-        downloadUrl
-      }
-      status
-    }
-  }
-`;
+import { strToU8, Zip, ZipDeflate, ZipPassThrough, zipSync } from 'fflate';
+
+import { createExpiryCalendar, createExpiryOverview } from './assetExpiry';
+import {
+    formatPackageFilename,
+    getPackageFileExtension,
+    concatChunks,
+    makeUniqueNames,
+    PACKAGE_FILES_FOLDER,
+} from './assetPackage';
+import { chunk, mapWithConcurrency } from './concurrency';
+import { createCsvContent, DEFAULT_CSV_DIALECT, type CsvDialect } from './csvWriter';
+import { DEFAULT_MULTI_VALUE_SEPARATOR, serializeCustomMetadataValues } from './customMetadataValues';
+import { getErrorGuidance } from './errors';
+import { getCustomMetadataColumns, resolveColumnKey } from './exportColumns';
+import { isFilterActive, matchesExportFilter } from './exportFilters';
+import { DATE_COLUMNS, getDefaultColumns, resolveExportColumns, TYPE_SPECIFIC_COLUMNS } from './exportProfiles';
+import { createJsonExport, createNdjsonExport, JSON_MIME_TYPE, NDJSON_MIME_TYPE } from './jsonExport';
+import { createImportPlan } from './metadataImport';
+import { createMetadataReport, getFillRate, QUALITY_ISSUE_FIELDS, QUALITY_ISSUE_LABELS } from './metadataReport';
+import { createLongRows, explodeRows, LONG_FORMAT_COLUMNS } from './rowLayout';
+import { createSnapshotDiff, readSnapshotFile } from './snapshotDiff';
+import {
+    type FrontifyCollection,
+    type FrontifyAsset,
+    type AssetForExport,
+    type StructuredExportCollection,
+    type FrontifyServiceOptions,
+    type FrontifyDataSource,
+    type ExportProgress,
+    type ExportProfile,
+    type ExportColumn,
+    type ExportFormat,
+    type ExportSource,
+    type ExportOptions,
+    type ExportFile,
+    type CollectionExportGroup,
+    type CollectionExportManifest,
+    type CollectionAssetsResult,
+    type MultiCollectionExportMode,
+    type ExportScope,
+    type ExportFilter,
+    type CustomMetadataPropertyDefinition,
+    type ImportRecord,
+    type ImportRowResult,
+    type MetadataImportPlan,
+    type MetadataReport,
+    type ExpiryOverview,
+    type AssetPackage,
+    type AssetPackageOptions,
+    type PackageFileFailure,
+    type ExportSnapshot,
+    type SnapshotDiff,
+} from './types';
+import { createXlsxWorkbook, XLSX_MIME_TYPE, type XlsxCellValue, type XlsxSheet } from './xlsxWriter';
+
+// Defaults for fetching asset metadata in batches
+export const DEFAULT_BATCH_SIZE = 50;
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
 
+// Asset types that get their own sheet in XLSX exports, in sheet order
+const ASSET_TYPES = ['Image', 'Video', 'Document', 'Audio'];
+
+// Sheet and CSV file listing the assets removed since the baseline of an incremental export
+const REMOVED_ASSETS_SHEET = 'Removed Assets';
+const REMOVED_ASSETS_FILENAME = 'removed_assets.csv';
+
+// Columns written as typed cells in XLSX exports (besides DATE_COLUMNS); everything else stays text
+const NUMBER_COLUMNS = new Set(['duration']);
+
+/**
+ * Fetches, serializes and writes the metadata of a library's assets. Reading and writing go through a
+ * FrontifyDataSource: the GraphQL API, or the bundled sample library in demo mode.
+ */
 export class FrontifyService {
-    private domain: string;
-    private token: string;
-    private libraryId: string;
+    private dataSource: FrontifyDataSource;
+    private batchSize: number;
+    private maxConcurrentRequests: number;
+    private onWarning?: (message: string) => void;
+    private multiValueSeparator: string;
+    private csvDialect: CsvDialect;
+    /** The library's property definitions, refreshed with every asset fetch; null until loaded or if loading failed */
+    private customMetadataProperties: CustomMetadataPropertyDefinition[] | null = null;
 
-    constructor(domain: string, token: string, libraryId: string) {
-        this.domain = domain;
-        this.token = token;
-        this.libraryId = libraryId;
+    constructor(dataSource: FrontifyDataSource, options: FrontifyServiceOptions = {}) {
+        this.dataSource = dataSource;
+        this.batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE;
+        this.maxConcurrentRequests =
+            options.maxConcurrentRequests && options.maxConcurrentRequests > 0
+                ? options.maxConcurrentRequests
+                : DEFAULT_MAX_CONCURRENT_REQUESTS;
+        this.onWarning = options.onWarning;
+        this.multiValueSeparator = options.multiValueSeparator ?? DEFAULT_MULTI_VALUE_SEPARATOR;
+        this.csvDialect = options.csvDialect ?? DEFAULT_CSV_DIALECT;
+    }
 
-        if (!domain) {
-            throw new Error('Frontify domain is required.');
-        }
-        if (!token) {
-            throw new Error('API Bearer Token is required. Please configure it in the block settings.');
+    private warn(message: string): void {
+        console.warn(message);
+        this.onWarning?.(message);
+    }
+
+    async fetchCollections(): Promise<FrontifyCollection[]> {
+        try {
+            return await this.dataSource.fetchCollections();
+        } catch (error) {
+            console.error('Error fetching collections from Frontify:', error);
+            throw error;
         }
-        if (!libraryId) {
-            throw new Error('Library ID is required. Please configure it in the block settings.');
+    }
+
+    async fetchAllCollections(): Promise<FrontifyCollection[]> {
+        return this.fetchCollections();
+    }
+
+    /**
+     * Fetch full metadata for the given asset IDs.
+     * IDs are split into batches of `batchSize`, with at most `maxConcurrentRequests` batches in flight.
+     * `onProgress` is called once up front and again after every completed batch.
+     */
+    async fetchAssetsByIds(
+        assetIds: string[],
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<FrontifyAsset[]> {
+        const batches = chunk(assetIds, this.batchSize);
+        let loaded = 0;
+
+        onProgress?.({ loaded, total: assetIds.length });
+
+        const schemaLoaded = this.loadCustomMetadataProperties();
+        const batchResults = await mapWithConcurrency(batches, this.maxConcurrentRequests, async (batch) => {
+            const assets = await this.dataSource.fetchAssetsByIds(batch);
+
+            loaded += batch.length;
+            onProgress?.({ loaded, total: assetIds.length });
+
+            return assets;
+        });
+
+        await schemaLoaded;
+
+        return batchResults.flat();
+    }
+
+    /**
+     * Refresh the property definitions custom metadata is serialized with. Without them, values are serialized
+     * by their shape, which can't tell option IDs, numbers or dates apart.
+     */
+    private async loadCustomMetadataProperties(): Promise<void> {
+        try {
+            this.customMetadataProperties = await this.fetchCustomMetadataProperties();
+        } catch (error) {
+            console.error('Error loading custom metadata properties:', error);
+            this.customMetadataProperties = null;
+            this.warn(
+                `Custom metadata property definitions could not be loaded (${getErrorGuidance(error)}). ` +
+                    'Custom metadata is exported as returned by the API, without type-specific formatting.',
+            );
         }
     }
 
-    private getGraphQLEndpoint(): string {
-        // Handle domain with or without protocol
-        const cleanDomain = this.domain.replace(/^https?:\/\//, '');
-        return `https://${cleanDomain}/graphql`;
+    /**
+     * Page through a collection's assets and return their IDs
+     */
+    async fetchCollectionAssetIds(collectionId: string): Promise<string[]> {
+        const assetRefs = await this.dataSource.fetchCollectionAssetRefs(collectionId);
+        return assetRefs.map((asset) => asset.id);
     }
 
     /**
-     * Execute a GraphQL query using direct fetch with bearer token
+     * Page through every asset in the configured library, including assets that are not in any collection
      */
-    private async executeQuery<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    async fetchLibraryAssetIds(): Promise<string[]> {
+        const assetRefs = await this.dataSource.fetchLibraryAssetRefs();
+        return assetRefs.map((asset) => asset.id);
+    }
+
+    async fetchCollectionAssets(
+        collectionId: string,
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<FrontifyAsset[]> {
         try {
-            const response = await fetch(this.getGraphQLEndpoint(), {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${this.token}`,
-                },
-                body: JSON.stringify({ query, variables }),
-            });
+            console.log('Fetching assets for collection:', collectionId);
+            console.log('Using library ID:', this.dataSource.libraryId);
 
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+            // Step 1: Get asset IDs from the collection, one page at a time
+            const assetIds = await this.fetchCollectionAssetIds(collectionId);
+            console.log(`Collection has ${assetIds.length} assets`);
+
+            if (assetIds.length === 0) {
+                return [];
             }
 
-            const result = await response.json();
+            // Step 2: Fetch full metadata for these assets in batches
+            const assets = await this.fetchAssetsByIds(assetIds, onProgress);
 
-            if (result.errors) {
-                const errorMessage = result.errors.map((e: { message: string }) => e.message).join(', ');
-                throw new Error(`GraphQL error: ${errorMessage}`);
+            console.log(`Successfully fetched metadata for ${assets.length} assets`);
+            return assets;
+        } catch (error) {
+            console.error('Error fetching collection assets:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Fetch the assets of several collections. Asset metadata is fetched once per asset,
+     * even when an asset is in more than one of the collections.
+     */
+    async fetchMultipleCollectionAssets(
+        collections: StructuredExportCollection[],
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<CollectionAssetsResult> {
+        try {
+            const groups: CollectionExportGroup[] = [];
+            for (const collection of collections) {
+                groups.push({ collection, assetIds: await this.fetchCollectionAssetIds(collection.id) });
             }
 
-            return result.data as T;
+            const uniqueAssetIds = [...new Set(groups.flatMap((group) => group.assetIds))];
+            console.log(`${collections.length} collections have ${uniqueAssetIds.length} unique assets`);
+
+            const assets = uniqueAssetIds.length > 0 ? await this.fetchAssetsByIds(uniqueAssetIds, onProgress) : [];
+
+            return { assets, groups };
         } catch (error) {
-            console.error('GraphQL query error:', error);
+            console.error('Error fetching assets for multiple collections:', error);
             throw error;
         }
     }
 
-    async fetchCollections(): Promise<FrontifyCollection[]> {
+    /**
+     * Fetch every asset in the library. `groups` records each collection's asset IDs,
+     * so the export can list the collections every asset belongs to.
+     */
+    async fetchLibraryAssets(
+        collections: StructuredExportCollection[],
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<CollectionAssetsResult> {
         try {
-            const result = await this.executeQuery<{
-                library: {
-                    collections: {
-                        total: number;
-                        items: Array<{
-                            id: string;
-                            name: string;
-                            assets: { total: number };
-                        }>;
-                    };
-                };
-            }>(LIBRARY_COLLECTIONS_QUERY, { libraryId: this.libraryId });
+            const assetIds = await this.fetchLibraryAssetIds();
+            console.log(`Library has ${assetIds.length} assets`);
 
-            if (!result?.library?.collections?.items) {
-                throw new Error('Invalid response structure from Frontify API. Check your library ID.');
+            const groups: CollectionExportGroup[] = [];
+            for (const collection of collections) {
+                groups.push({ collection, assetIds: await this.fetchCollectionAssetIds(collection.id) });
             }
 
-            return result.library.collections.items.map((col) => ({
-                id: col.id,
-                name: col.name,
-                assetCount: col.assets?.total || 0,
-            }));
+            const assets = assetIds.length > 0 ? await this.fetchAssetsByIds(assetIds, onProgress) : [];
+
+            return { assets, groups };
         } catch (error) {
-            console.error('Error fetching collections from Frontify:', error);
+            console.error('Error fetching library assets:', error);
             throw error;
         }
     }
 
-    async fetchAllCollections(): Promise<FrontifyCollection[]> {
-        return this.fetchCollections();
+    async fetchAllCollectionAssets(
+        collectionId: string,
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<FrontifyAsset[]> {
+        return this.fetchCollectionAssets(collectionId, onProgress);
     }
 
-    async fetchCollectionAssets(collectionId: string): Promise<FrontifyAsset[]> {
-        try {
-            console.log('Fetching assets for collection:', collectionId);
-            console.log('Using library ID:', this.libraryId);
-
-            // Step 1: Get asset IDs from the collection
-            const collectionResult = await this.executeQuery<{
-                library: {
-                    collections: {
-                        items: Array<{
-                            id: string;
-                            assets: {
-                                items: Array<{ id: string }>;
-                            };
-                        }>;
-                    };
-                };
-            }>(COLLECTION_ASSETS_QUERY, { libraryId: this.libraryId });
+    /**
+     * Fetch the library's custom metadata properties with the options of select and multi-select properties
+     */
+    async fetchCustomMetadataProperties(): Promise<CustomMetadataPropertyDefinition[]> {
+        return this.dataSource.fetchCustomMetadataProperties();
+    }
 
-            const collection = collectionResult?.library?.collections?.items?.find(
-                (col) => col.id === collectionId
-            );
+    /**
+     * Load the current metadata of every asset in the import records and work out what the import would change.
+     * Nothing is written to Frontify.
+     */
+    async planMetadataImport(
+        records: ImportRecord[],
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<MetadataImportPlan> {
+        const assetIds = [...new Set(records.map((record) => (record.values.id ?? '').trim()).filter(Boolean))];
+        const assets = await this.fetchAssetsByIds(assetIds, onProgress);
+        // The import can't map option texts without the definitions, so loading them again surfaces the error
+        const properties = this.customMetadataProperties ?? (await this.fetchCustomMetadataProperties());
+        const exportData = this.prepareAssetsForExport(assets);
 
-            if (!collection) {
-                throw new Error('Collection not found');
-            }
+        return createImportPlan(
+            records,
+            new Map(exportData.map((asset) => [asset.id, asset])),
+            properties,
+            new Map(assets.map((asset) => [asset.id, asset.__typename])),
+            this.multiValueSeparator,
+        );
+    }
 
-            const assetIds = collection.assets.items.map((asset) => asset.id);
-            console.log(`Collection has ${assetIds.length} assets`);
+    /**
+     * Write the planned changes with one `updateAsset` mutation per asset.
+     * A failing asset doesn't stop the others; every attempted row gets a result.
+     */
+    async applyMetadataImport(
+        plan: MetadataImportPlan,
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<ImportRowResult[]> {
+        const rows = plan.rows.filter((row) => !row.error && row.changes.length > 0);
+        let loaded = 0;
 
-            if (assetIds.length === 0) {
-                return [];
+        onProgress?.({ loaded, total: rows.length });
+
+        return mapWithConcurrency(rows, this.maxConcurrentRequests, async (row): Promise<ImportRowResult> => {
+            try {
+                await this.dataSource.updateAsset(row.assetId, row.update);
+                return { source: row.source, assetId: row.assetId, status: 'applied' };
+            } catch (error) {
+                console.error(`Error updating asset ${row.assetId}:`, error);
+                return {
+                    source: row.source,
+                    assetId: row.assetId,
+                    status: 'failed',
+                    message: getErrorGuidance(error),
+                };
+            } finally {
+                loaded++;
+                onProgress?.({ loaded, total: rows.length });
             }
+        });
+    }
 
-            // Step 2: Fetch full metadata for these assets
-            const assetsResult = await this.executeQuery<{
-                assets: FrontifyAsset[];
-            }>(ASSETS_BY_IDS_QUERY, { ids: assetIds });
+    /**
+     * CSV with the previous values of every applied asset, in the import file format,
+     * so importing it restores the metadata as it was before the import
+     */
+    createImportUndoFile(plan: MetadataImportPlan, results: ImportRowResult[]): ExportFile {
+        const appliedAssetIds = new Set(
+            results.filter((result) => result.status === 'applied').map((result) => result.assetId),
+        );
+        const columns = ['id', ...plan.editableColumns];
+        const customMetadataColumns = this.getCustomMetadataColumns([]);
+        const rows = plan.rows
+            .filter((row) => row.current && appliedAssetIds.has(row.assetId))
+            .map((row) =>
+                columns.map((key) => String(row.current?.[resolveColumnKey(key, customMetadataColumns)] ?? '')),
+            );
 
-            if (!assetsResult?.assets) {
-                throw new Error('Invalid response structure from Frontify API');
-            }
+        return {
+            filename: `metadata_import_undo_${new Date().toISOString().replaceAll(/\D/g, '').slice(0, 14)}.csv`,
+            mimeType: 'text/csv;charset=utf-8;',
+            content: createCsvContent([columns, ...rows], this.csvDialect),
+        };
+    }
 
-            console.log(`Successfully fetched metadata for ${assetsResult.assets.length} assets`);
-            return assetsResult.assets;
-        } catch (error) {
-            console.error('Error fetching collection assets:', error);
-            throw error;
+    /**
+     * Metadata completeness and quality report for the given assets.
+     * Custom metadata properties without any values are included when the library's property list can be loaded.
+     */
+    async createMetadataReport(assets: FrontifyAsset[], source: ExportSource): Promise<MetadataReport> {
+        if (!this.customMetadataProperties) {
+            try {
+                this.customMetadataProperties = await this.fetchCustomMetadataProperties();
+            } catch (error) {
+                console.warn(
+                    'Could not load custom metadata properties, reporting only properties with values:',
+                    error,
+                );
+            }
         }
+
+        return createMetadataReport(
+            source.name,
+            assets,
+            this.prepareAssetsForExport(assets),
+            this.getCustomMetadataColumns(assets),
+        );
     }
 
-    async fetchAllCollectionAssets(collectionId: string): Promise<FrontifyAsset[]> {
-        return this.fetchCollectionAssets(collectionId);
+    /**
+     * The report as CSV: one "Fill rate" row per field, one "Missing value" row per asset lacking a field,
+     * and one row per quality issue
+     */
+    createMetadataReportFile(report: MetadataReport): ExportFile {
+        const header = ['Section', 'Field', 'Filled', 'Applicable', 'Fill Rate', 'Asset ID', 'Title', 'Detail'];
+        const rows: string[][] = [
+            ...report.fields.map((field) => [
+                'Fill rate',
+                field.label,
+                String(field.filledCount),
+                String(field.applicableCount),
+                `${getFillRate(field)}%`,
+                '',
+                '',
+                field.custom ? 'Custom metadata' : 'Standard field',
+            ]),
+            ...report.fields.flatMap((field) =>
+                field.missingAssetIds.map((assetId) => [
+                    'Missing value',
+                    field.label,
+                    '',
+                    '',
+                    '',
+                    assetId,
+                    report.assetTitles[assetId] ?? '',
+                    '',
+                ]),
+            ),
+            ...report.issues.map((issue) => [
+                QUALITY_ISSUE_LABELS[issue.type],
+                QUALITY_ISSUE_FIELDS[issue.type],
+                '',
+                '',
+                '',
+                issue.assetId,
+                issue.title,
+                issue.detail,
+            ]),
+        ];
+
+        return {
+            filename: `${this.sanitizeFilename(report.name)}_metadata_report.csv`,
+            mimeType: 'text/csv;charset=utf-8;',
+            content: createCsvContent([header, ...rows], this.csvDialect),
+        };
     }
 
     /**
-     * Extract the display value from a custom metadata value.
-     * Handles three cases:
-     * 1. Plain string value (e.g., "Smith Studio")
-     * 2. Object with text property (e.g., { optionId: "...", text: "Original Red" })
-     * 3. Array of values (for CustomMetadataValues type)
+     * Read a previous export for createSnapshotDiff. JSON custom metadata is flattened like the current assets,
+     * so read the file after fetching them.
      */
-    private extractMetadataValue(rawValue: unknown): string {
-        if (rawValue === null || rawValue === undefined) {
-            return '';
-        }
+    readSnapshotFile(filename: string, data: Uint8Array, profile?: ExportProfile | null): ExportSnapshot {
+        return readSnapshotFile(filename, data, profile, {
+            properties: this.customMetadataProperties ?? undefined,
+            multiValueSeparator: this.multiValueSeparator,
+        });
+    }
 
-        // Plain string
-        if (typeof rawValue === 'string') {
-            return rawValue;
-        }
+    /**
+     * Compare the current assets with a previous export read with readSnapshotFile. The current data
+     * gets a collection column for merged and library sources, like the export itself.
+     * `selectedAssets` are the assets before filtering; those missing from `assets` are not reported as removed.
+     */
+    createSnapshotDiff(
+        assets: FrontifyAsset[],
+        source: ExportSource,
+        snapshot: ExportSnapshot,
+        selectedAssets: FrontifyAsset[] = assets,
+    ): SnapshotDiff {
+        const exportData = this.prepareAssetsForExport(assets, source.assetCollections);
+        return createSnapshotDiff(
+            source.name,
+            snapshot,
+            exportData,
+            getDefaultColumns(exportData, this.getCustomMetadataColumns(assets)),
+            new Set(selectedAssets.map((asset) => asset.id)),
+        );
+    }
 
-        // Object with text property (select/dropdown options)
-        if (typeof rawValue === 'object' && rawValue !== null && 'text' in rawValue) {
-            return (rawValue as { text: string }).text;
-        }
+    /**
+     * The diff as a CSV change report: one row per added or removed asset and per changed field,
+     * with the old and new values side by side
+     */
+    createSnapshotDiffFile(diff: SnapshotDiff): ExportFile {
+        const header = ['Change', 'Asset ID', 'Title', 'Field', 'Old Value', 'New Value'];
+        const rows: string[][] = [
+            ...diff.added.map((asset) => ['Added', asset.assetId, asset.title, '', '', '']),
+            ...diff.removed.map((asset) => ['Removed', asset.assetId, asset.title, '', '', '']),
+            ...diff.changed.flatMap((asset) =>
+                asset.changes.map((change) => [
+                    'Changed',
+                    asset.assetId,
+                    asset.title,
+                    change.key,
+                    change.before,
+                    change.after,
+                ]),
+            ),
+        ];
 
-        // Fallback: stringify it
-        return String(rawValue);
+        return {
+            filename: `${this.sanitizeFilename(diff.name)}_changes.csv`,
+            mimeType: 'text/csv;charset=utf-8;',
+            content: createCsvContent([header, ...rows], this.csvDialect),
+        };
     }
 
-    prepareAssetsForExport(assets: FrontifyAsset[]): AssetForExport[] {
-        return assets.map((asset) => {
+    /**
+     * Assets of an export source grouped by how soon they expire.
+     * `linkTemplate` turns asset IDs into links (`{id}` is replaced); without it, assets link to their preview URL.
+     */
+    createExpiryOverview(assets: FrontifyAsset[], source: ExportSource, linkTemplate?: string): ExpiryOverview {
+        return createExpiryOverview(
+            source.name,
+            assets,
+            this.prepareAssetsForExport(assets),
+            (assetId) => source.assetCollections?.get(assetId) ?? source.collections,
+            linkTemplate,
+        );
+    }
+
+    createExpiryCalendarFile(overview: ExpiryOverview): ExportFile {
+        return {
+            filename: `${this.sanitizeFilename(overview.name)}_expiry.ics`,
+            mimeType: 'text/calendar;charset=utf-8;',
+            content: createExpiryCalendar(overview, this.dataSource.domain),
+        };
+    }
+
+    /**
+     * Flatten assets into string columns. With `assetCollections` (merged multi-collection exports),
+     * a `collection` column lists every exported collection the asset belongs to.
+     */
+    prepareAssetsForExport(
+        assets: FrontifyAsset[],
+        assetCollections?: Map<string, StructuredExportCollection[]>,
+    ): AssetForExport[] {
+        const skippedValues = new Map<string, { count: number; example: unknown }>();
+
+        const flattenedAssets = assets.map((asset) => {
             // Add tags as comma-separated string
             const tags =
                 asset.tags && Array.isArray(asset.tags) ? asset.tags.map((tag) => tag.value).join(', ') : '';
@@ -279,6 +522,9 @@ export class FrontifyService {
 
             const exportData: AssetForExport = {
                 id: asset.id,
+                ...(assetCollections && {
+                    collection: (assetCollections.get(asset.id) ?? []).map((collection) => collection.name).join('; '),
+                }),
                 title: asset.title || '',
                 description: asset.description || '',
                 status: asset.status || '',
@@ -290,86 +536,521 @@ export class FrontifyService {
                 previewUrl: asset.previewUrl || '',
                 downloadUrl: asset.downloadUrl || '',
                 alternativeText: asset.alternativeText || '',
-                duration: asset.duration || '',
+                duration: asset.duration ?? '',
                 tags: tags,
                 licenses: licenses,
             };
 
-            // Add all custom metadata fields dynamically
-            if (asset.customMetadata && Array.isArray(asset.customMetadata)) {
-                asset.customMetadata.forEach((metadata) => {
-                    const fieldName = metadata.property?.name;
-                    if (!fieldName) return;
-
-                    let metadataValue = '';
-
-                    // Handle CustomMetadataValue (singular) - has "value" field
-                    if (metadata.value !== undefined && metadata.value !== null) {
-                        metadataValue = this.extractMetadataValue(metadata.value);
-                    }
-                    // Handle CustomMetadataValues (plural) - has "values" array
-                    else if (metadata.values && Array.isArray(metadata.values) && metadata.values.length > 0) {
-                        metadataValue = metadata.values
-                            .map((v) => this.extractMetadataValue(v))
-                            .join('; ');
-                    }
-
-                    // Use the field name as the key (will become CSV header)
-                    exportData[fieldName] = metadataValue;
-                });
+            // Custom metadata fields become columns keyed by property ID, serialized by the property's type
+            for (const metadata of asset.customMetadata ?? []) {
+                const propertyId = metadata.property?.id;
+                if (!propertyId) {
+                    continue;
+                }
+
+                let rawValues: unknown[] = [];
+                if (Array.isArray(metadata.values)) {
+                    rawValues = metadata.values;
+                } else if (metadata.value !== undefined && metadata.value !== null) {
+                    rawValues = [metadata.value];
+                }
+
+                const { value, unexpectedValues } = serializeCustomMetadataValues(
+                    rawValues,
+                    this.customMetadataProperties?.find((property) => property.id === metadata.property.id),
+                    this.multiValueSeparator,
+                );
+                exportData[propertyId] = value;
+
+                if (unexpectedValues.length > 0) {
+                    const fieldName = metadata.property.name || propertyId;
+                    const skipped = skippedValues.get(fieldName);
+                    skippedValues.set(fieldName, {
+                        count: (skipped?.count ?? 0) + unexpectedValues.length,
+                        example: skipped?.example ?? unexpectedValues[0],
+                    });
+                }
             }
 
             return exportData;
         });
+
+        for (const [fieldName, { count, example }] of skippedValues) {
+            this.warn(
+                `Custom metadata "${fieldName}": ${count} ${count === 1 ? 'value' : 'values'} of an unexpected shape ` +
+                    `left empty, e.g. ${JSON.stringify(example)?.slice(0, 80)}`,
+            );
+        }
+
+        return flattenedAssets;
     }
 
-    exportToCSV(assets: FrontifyAsset[], collectionName: string): void {
-        const exportData = this.prepareAssetsForExport(assets);
+    /**
+     * Columns for the custom metadata in the flattened export data of `assets`: every property of the library,
+     * plus properties found on the assets but missing from the loaded definitions (e.g. when they failed to load)
+     */
+    getCustomMetadataColumns(assets: FrontifyAsset[]): ExportColumn[] {
+        return getCustomMetadataColumns([
+            ...(this.customMetadataProperties ?? []),
+            ...assets.flatMap((asset) =>
+                (asset.customMetadata ?? []).flatMap((metadata) => (metadata.property?.id ? [metadata.property] : [])),
+            ),
+        ]);
+    }
 
-        if (exportData.length === 0) {
+    /**
+     * Keep the assets whose flattened export data (see prepareAssetsForExport) matches the filter
+     */
+    filterAssets(
+        assets: FrontifyAsset[],
+        filter: ExportFilter | null | undefined,
+        assetCollections?: Map<string, StructuredExportCollection[]>,
+    ): FrontifyAsset[] {
+        if (!isFilterActive(filter)) {
+            return assets;
+        }
+
+        const exportData = this.prepareAssetsForExport(assets, assetCollections);
+        const columns = getDefaultColumns(exportData, this.getCustomMetadataColumns(assets));
+        return assets.filter((_, index) =>
+            matchesExportFilter(exportData[index], filter, columns, this.multiValueSeparator),
+        );
+    }
+
+    /**
+     * Serialize assets into a file of the given format without downloading it.
+     * `options.filter` drops assets that don't match before anything is written;
+     * `options.profile` selects, orders and labels the columns of CSV and XLSX files;
+     * `options.sheetPerAssetType` splits XLSX files into one sheet per asset type.
+     */
+    createExportFile(
+        format: ExportFormat,
+        allAssets: FrontifyAsset[],
+        source: ExportSource,
+        options: ExportOptions = {},
+    ): ExportFile {
+        // Incremental exports without changed assets still deliver the removed ones
+        const { changes } = options;
+        if (allAssets.length === 0 && !changes) {
             throw new Error('No assets to export');
         }
 
-        // Get all unique keys across all assets (for headers)
-        const allKeys = new Set<string>();
-        exportData.forEach((asset) => {
-            Object.keys(asset).forEach((key) => allKeys.add(key));
+        const assets = this.filterAssets(allAssets, options.filter, source.assetCollections);
+        if (assets.length === 0 && !changes) {
+            throw new Error('No assets match the export filter');
+        }
+
+        const baseName = `${this.sanitizeFilename(source.name)}_assets${changes ? '_changes' : ''}`;
+        const removedAssetIds = changes?.removedAssetIds ?? null;
+
+        switch (format) {
+            case 'xlsx': {
+                const sheets: XlsxSheet[] =
+                    options.sheetPerAssetType && assets.length > 0
+                        ? this.groupAssetsByType(assets).map(([assetType, typeAssets]) =>
+                              this.createXlsxSheet(assetType, typeAssets, source, options, assetType),
+                          )
+                        : [this.createXlsxSheet('Assets', assets, source, options)];
+                if (removedAssetIds) {
+                    sheets.push({
+                        name: REMOVED_ASSETS_SHEET,
+                        headers: ['id'],
+                        rows: removedAssetIds.map((assetId) => [assetId]),
+                    });
+                }
+
+                return { filename: `${baseName}.xlsx`, mimeType: XLSX_MIME_TYPE, content: createXlsxWorkbook(sheets) };
+            }
+            case 'json':
+                return {
+                    filename: `${baseName}.json`,
+                    mimeType: JSON_MIME_TYPE,
+                    content: createJsonExport(assets, source, new Date(), changes),
+                };
+            case 'ndjson':
+                return {
+                    filename: `${baseName}.ndjson`,
+                    mimeType: NDJSON_MIME_TYPE,
+                    content: createNdjsonExport(assets, source, new Date(), changes),
+                };
+            default: {
+                const csvContent = this.createCSVContent(assets, source, options);
+                if (!removedAssetIds) {
+                    return { filename: `${baseName}.csv`, mimeType: 'text/csv;charset=utf-8;', content: csvContent };
+                }
+
+                // A CSV file holds one table, so the removed assets go into a second file next to it
+                const removedContent = createCsvContent(
+                    [['id'], ...removedAssetIds.map((assetId) => [assetId])],
+                    this.csvDialect,
+                );
+                return {
+                    filename: `${baseName}.zip`,
+                    mimeType: 'application/zip',
+                    content: zipSync(
+                        {
+                            [`${baseName}.csv`]: strToU8(csvContent),
+                            [REMOVED_ASSETS_FILENAME]: strToU8(removedContent),
+                        },
+                        { level: 6 },
+                    ),
+                };
+            }
+        }
+    }
+
+    /**
+     * Serialize several collections, either merged into one file with a `collection` column
+     * (each asset once) or as a ZIP archive with one file per collection.
+     */
+    createMultiCollectionExportFile(
+        format: ExportFormat,
+        { assets, groups }: CollectionAssetsResult,
+        mode: MultiCollectionExportMode,
+        options: ExportOptions = {},
+    ): ExportFile {
+        const source = this.createMergedExportSource('collections', groups, `${groups.length}_collections`);
+        if (mode !== 'zip') {
+            return this.createExportFile(format, assets, source, options);
+        }
+
+        // Filter once on the merged data, so conditions on the collection column work in ZIP exports too
+        const matchingAssets = this.filterAssets(assets, options.filter, source.assetCollections);
+        if (matchingAssets.length === 0) {
+            throw new Error('No assets match the export filter');
+        }
+
+        return this.createCollectionsZip(format, matchingAssets, groups, { ...options, filter: null });
+    }
+
+    /**
+     * Download the original or preview file of every asset into a ZIP, named from `options.filenamePattern`,
+     * with a `manifest.csv` of the assets' metadata whose `path` column matches the archive.
+     * Files are added to the archive as they arrive; a file that fails is listed in `failures` and in the
+     * manifest's `downloadError` column instead of aborting the package.
+     */
+    async createAssetPackage(
+        allAssets: FrontifyAsset[],
+        source: ExportSource,
+        options: AssetPackageOptions,
+        onProgress?: (progress: ExportProgress) => void,
+    ): Promise<AssetPackage> {
+        const assets = this.filterAssets(allAssets, options.filter, source.assetCollections);
+        if (assets.length === 0) {
+            throw new Error('No assets match the export filter');
+        }
+
+        const exportData = this.prepareAssetsForExport(assets, source.assetCollections);
+        const customMetadataColumns = this.getCustomMetadataColumns(assets);
+        const filenameColumns = getDefaultColumns(exportData, customMetadataColumns);
+        const baseNames = makeUniqueNames(
+            exportData.map((data) => formatPackageFilename(options.filenamePattern, data, filenameColumns)),
+        );
+        const paths: string[] = [];
+        const failures: PackageFileFailure[] = [];
+
+        const chunks: Uint8Array[] = [];
+        let zipError: Error | null = null;
+        const zip = new Zip((error, data) => {
+            if (error) {
+                zipError = error;
+            } else {
+                chunks.push(data);
+            }
         });
 
-        const headers = Array.from(allKeys);
+        let loaded = 0;
+        await mapWithConcurrency(assets, this.maxConcurrentRequests, async (asset, index) => {
+            const url = options.variant === 'preview' ? asset.previewUrl : asset.downloadUrl;
+            try {
+                if (!url) {
+                    throw new Error(`The asset has no ${options.variant === 'preview' ? 'preview' : 'original'} file`);
+                }
 
-        // Create CSV content
-        const csvRows: string[] = [];
+                const response = await fetch(url);
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+                }
+                const data = new Uint8Array(await response.arrayBuffer());
+                const extension = getPackageFileExtension(
+                    url,
+                    response.headers.get('content-type'),
+                    options.variant === 'original' ? asset.extension : undefined,
+                );
 
-        // Add header row
-        csvRows.push(headers.map((h) => this.escapeCSVValue(h)).join(','));
+                paths[index] = `${PACKAGE_FILES_FOLDER}/${baseNames[index]}.${extension}`;
+                // Media files are already compressed, so they are stored as they are
+                const entry = new ZipPassThrough(paths[index]);
+                zip.add(entry);
+                entry.push(data, true);
+            } catch (error) {
+                failures.push({
+                    assetId: asset.id,
+                    title: asset.title || '',
+                    reason:
+                        error instanceof TypeError
+                            ? 'The file could not be fetched (network error, or blocked by the browser)'
+                            : error instanceof Error
+                              ? error.message
+                              : String(error),
+                });
+            } finally {
+                onProgress?.({ loaded: ++loaded, total: assets.length });
+            }
+        });
+
+        const failureReasons = new Map(failures.map((failure) => [failure.assetId, failure.reason]));
+        const columns = [
+            { key: 'path', label: 'path' },
+            { key: 'downloadError', label: 'downloadError' },
+            ...resolveExportColumns(exportData, options.profile, customMetadataColumns),
+        ];
+        const manifestRows = exportData.map(
+            (data, index): AssetForExport => ({
+                ...data,
+                path: paths[index] ?? '',
+                downloadError: failureReasons.get(data.id) ?? '',
+            }),
+        );
+        const manifest = createCsvContent(
+            [
+                columns.map((column) => column.label),
+                ...manifestRows.map((row) => columns.map(({ key }) => String(row[key] ?? ''))),
+            ],
+            this.csvDialect,
+        );
+
+        const manifestEntry = new ZipDeflate('manifest.csv', { level: 6 });
+        zip.add(manifestEntry);
+        manifestEntry.push(strToU8(manifest), true);
+        zip.end();
+        if (zipError) {
+            throw zipError;
+        }
 
-        // Add data rows
-        exportData.forEach((asset) => {
-            const row = headers.map((header) => {
-                const value = asset[header] || '';
-                return this.escapeCSVValue(String(value));
+        return {
+            file: {
+                filename: `${this.sanitizeFilename(source.name)}_package.zip`,
+                mimeType: 'application/zip',
+                content: concatChunks(chunks),
+            },
+            fileCount: assets.length - failures.length,
+            failures,
+        };
+    }
+
+    /**
+     * Export source for a file that merges several collections, listing the collections each asset belongs to
+     */
+    createMergedExportSource(scope: ExportScope, groups: CollectionExportGroup[], name: string): ExportSource {
+        const assetCollections = new Map<string, StructuredExportCollection[]>();
+        for (const { collection, assetIds } of groups) {
+            for (const assetId of assetIds) {
+                assetCollections.set(assetId, [...(assetCollections.get(assetId) ?? []), collection]);
+            }
+        }
+
+        return {
+            scope,
+            name,
+            collections: groups.map((group) => group.collection),
+            assetCollections,
+        };
+    }
+
+    /**
+     * Build a ZIP archive with one export file per collection plus a `manifest.json` summary.
+     * Assets that appear in several collections are included in each of their files.
+     */
+    private createCollectionsZip(
+        format: ExportFormat,
+        assets: FrontifyAsset[],
+        collections: CollectionExportGroup[],
+        options: ExportOptions = {},
+    ): ExportFile {
+        const assetsById = new Map(assets.map((asset) => [asset.id, asset]));
+        const usedFilenames = new Set<string>();
+        const files: Record<string, Uint8Array> = {};
+        const manifestCollections: CollectionExportManifest['collections'] = [];
+
+        for (const { collection, assetIds } of collections) {
+            const collectionAssets = assetIds
+                .map((assetId) => assetsById.get(assetId))
+                .filter((asset): asset is FrontifyAsset => asset !== undefined);
+
+            if (collectionAssets.length === 0) {
+                manifestCollections.push({ id: collection.id, name: collection.name, file: null, assetCount: 0 });
+                continue;
+            }
+
+            const file = this.createExportFile(
+                format,
+                collectionAssets,
+                { scope: 'collection', name: collection.name, collections: [collection] },
+                options,
+            );
+
+            // Collections whose names sanitize to the same filename get a numeric suffix
+            let filename = file.filename;
+            for (let suffix = 2; usedFilenames.has(filename); suffix++) {
+                filename = file.filename.replace(/(\.\w+)$/, `_${suffix}$1`);
+            }
+            usedFilenames.add(filename);
+
+            files[filename] = typeof file.content === 'string' ? strToU8(file.content) : file.content;
+            manifestCollections.push({
+                id: collection.id,
+                name: collection.name,
+                file: filename,
+                assetCount: collectionAssets.length,
             });
-            csvRows.push(row.join(','));
+        }
+
+        const manifest: CollectionExportManifest = {
+            exportedAt: new Date().toISOString(),
+            format,
+            collectionCount: collections.length,
+            uniqueAssetCount: assetsById.size,
+            collections: manifestCollections,
+        };
+        files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+        return {
+            filename: `${collections.length}_collections_assets.zip`,
+            mimeType: 'application/zip',
+            content: zipSync(files, { level: 6 }),
+        };
+    }
+
+    /**
+     * The separate values of the multi-value columns of each asset, in the same order as `assets`: tags, licenses,
+     * collections and custom metadata with a list of values. prepareAssetsForExport joins these into one cell.
+     */
+    private getValueLists(
+        assets: FrontifyAsset[],
+        assetCollections?: Map<string, StructuredExportCollection[]>,
+    ): Record<string, string[]>[] {
+        return assets.map((asset) => {
+            const valueLists: Record<string, string[]> = {
+                tags: (asset.tags ?? []).map((tag) => tag.value),
+                licenses: (asset.licenses ?? []).map((license) => license.title),
+                ...(assetCollections && {
+                    collection: (assetCollections.get(asset.id) ?? []).map((collection) => collection.name),
+                }),
+            };
+
+            for (const metadata of asset.customMetadata ?? []) {
+                if (metadata.property?.id && Array.isArray(metadata.values)) {
+                    valueLists[metadata.property.id] = serializeCustomMetadataValues(
+                        metadata.values,
+                        this.customMetadataProperties?.find((property) => property.id === metadata.property.id),
+                        this.multiValueSeparator,
+                    ).values;
+                }
+            }
+
+            return valueLists;
         });
+    }
 
-        const csvContent = csvRows.join('\n');
+    /**
+     * Columns and rows of a CSV file or XLSX sheet, in the row layout of `options`.
+     * With `assetType`, columns that don't apply to that asset type are left out.
+     */
+    private createTable(
+        assets: FrontifyAsset[],
+        source: ExportSource,
+        options: ExportOptions,
+        assetType?: string,
+    ): { columns: ExportColumn[]; rows: Record<string, string | number>[] } {
+        const exportData = this.prepareAssetsForExport(assets, source.assetCollections);
+        const customMetadataColumns = this.getCustomMetadataColumns(assets);
+        const columns = resolveExportColumns(exportData, options.profile, customMetadataColumns).filter(
+            ({ key }) => !assetType || !TYPE_SPECIFIC_COLUMNS[key] || TYPE_SPECIFIC_COLUMNS[key].includes(assetType),
+        );
 
-        // Create blob and download
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${this.sanitizeFilename(collectionName)}_assets.csv`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        switch (options.rowLayout) {
+            case 'explode': {
+                const key = resolveColumnKey(
+                    options.explodeColumn ?? '',
+                    getDefaultColumns(exportData, customMetadataColumns),
+                );
+                if (!key) {
+                    throw new Error('Choose the field to export one row per value of');
+                }
+                return {
+                    columns,
+                    rows: explodeRows(exportData, this.getValueLists(assets, source.assetCollections), key),
+                };
+            }
+            case 'long':
+                return {
+                    columns: LONG_FORMAT_COLUMNS,
+                    rows: createLongRows(exportData, this.getValueLists(assets, source.assetCollections), columns),
+                };
+            default:
+                return { columns, rows: exportData };
+        }
     }
 
-    private escapeCSVValue(value: string): string {
-        if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-            return `"${value.replace(/"/g, '""')}"`;
+    private createCSVContent(assets: FrontifyAsset[], source: ExportSource, options: ExportOptions): string {
+        const { columns, rows } = this.createTable(assets, source, options);
+
+        return createCsvContent(
+            [
+                columns.map((column) => column.label),
+                ...rows.map((row) => columns.map(({ key }) => String(row[key] ?? ''))),
+            ],
+            this.csvDialect,
+        );
+    }
+
+    /**
+     * Group assets by GraphQL type, known types first in ASSET_TYPES order, anything else under "Other"
+     */
+    private groupAssetsByType(assets: FrontifyAsset[]): [string, FrontifyAsset[]][] {
+        const groups = new Map<string, FrontifyAsset[]>(ASSET_TYPES.map((assetType) => [assetType, []]));
+
+        for (const asset of assets) {
+            const assetType = asset.__typename && ASSET_TYPES.includes(asset.__typename) ? asset.__typename : 'Other';
+            const group = groups.get(assetType);
+            if (group) {
+                group.push(asset);
+            } else {
+                groups.set(assetType, [asset]);
+            }
+        }
+
+        return [...groups.entries()].filter(([, typeAssets]) => typeAssets.length > 0);
+    }
+
+    private createXlsxSheet(
+        name: string,
+        assets: FrontifyAsset[],
+        source: ExportSource,
+        options: ExportOptions,
+        assetType?: string,
+    ): XlsxSheet {
+        const { columns, rows } = this.createTable(assets, source, options, assetType);
+
+        return {
+            name,
+            headers: columns.map((column) => column.label),
+            rows: rows.map((row) => columns.map(({ key }) => this.toXlsxCellValue(key, row[key]))),
+        };
+    }
+
+    private toXlsxCellValue(key: string, value: string | number | undefined): XlsxCellValue {
+        if (value === undefined || value === '') {
+            return null;
+        }
+        if (DATE_COLUMNS.has(key)) {
+            const date = new Date(value);
+            return Number.isNaN(date.getTime()) ? String(value) : date;
+        }
+        if (NUMBER_COLUMNS.has(key)) {
+            const number = Number(value);
+            return Number.isFinite(number) ? number : String(value);
         }
         return value;
     }
@@ -0,0 +1,402 @@
+import {
+    AuthenticationError,
+    FrontifyApiError,
+    LibraryNotFoundError,
+    PartialDataError,
+    PermissionError,
+    SessionAuthenticationError,
+    SessionPermissionError,
+    classifyGraphQLErrors,
+    type GraphQLErrorEntry,
+} from './errors';
+import { GraphQLTransport, type GraphQLAuthentication, type GraphQLTransportOptions } from './graphqlTransport';
+import {
+    type AssetReference,
+    type AssetUpdateData,
+    type CustomMetadataPropertyDefinition,
+    type FrontifyAsset,
+    type FrontifyCollection,
+    type FrontifyDataSource,
+    type PaginatedList,
+} from './types';
+
+export interface GraphQLDataSourceOptions extends GraphQLTransportOptions {
+    /** GraphQL errors returned alongside data; the data is used and the errors are reported here */
+    onPartialData?: (error: PartialDataError) => void;
+}
+
+// Page size used when walking paginated lists (collections, collection assets)
+const PAGE_LIMIT = 100;
+
+// GraphQL Queries
+const LIBRARY_COLLECTIONS_QUERY = `
+  query GetLibraryCollections($libraryId: ID!, $page: Int!, $limit: Int!) {
+    library(id: $libraryId) {
+      collections(page: $page, limit: $limit) {
+        total
+        items {
+          id
+          name
+          assets {
+            total
+          }
+        }
+      }
+    }
+  }
+`;
+
+const COLLECTION_ASSET_IDS_QUERY = `
+  query GetCollectionAssetIds($collectionId: ID!, $page: Int!, $limit: Int!) {
+    node(id: $collectionId) {
+      ... on Collection {
+        id
+        name
+        assets(page: $page, limit: $limit) {
+          total
+          items {
+            id
+            modifiedAt
+          }
+        }
+      }
+    }
+  }
+`;
+
+const LIBRARY_ASSET_IDS_QUERY = `
+  query GetLibraryAssetIds($libraryId: ID!, $page: Int!, $limit: Int!) {
+    library(id: $libraryId) {
+      assets(page: $page, limit: $limit) {
+        total
+        items {
+          id
+          modifiedAt
+        }
+      }
+    }
+  }
+`;
+
+const ASSETS_BY_IDS_QUERY = `
+  query GetAssetsByIds($ids: [ID!]!) {
+    assets(ids: $ids) {
+      __typename
+      id
+      title
+      description
+      createdAt
+      modifiedAt
+      copyright {
+        status
+        notice
+      }
+      expiresAt
+      customMetadata {
+        property {
+          id
+          name
+        }
+        ... on CustomMetadataValue {
+          __typename
+          value
+        }
+        ... on CustomMetadataValues {
+          __typename
+          values
+        }
+      }
+      tags {
+        value
+        source
+      }
+      licenses {
+        id
+        title
+      }
+      ... on Image {
+        alternativeText
+        previewUrl
+        downloadUrl
+        extension
+      }
+      ... on Video {
+        alternativeText
+        previewUrl
+        downloadUrl
+        extension
+        duration
+      }
+      ... on Document {
+        previewUrl
+        downloadUrl
+        extension
+      }
+      ... on Audio {
+        previewUrl
+        downloadUrl
+        extension
+      }
+      status
+    }
+  }
+`;
+
+const CUSTOM_METADATA_PROPERTIES_QUERY = `
+  query GetCustomMetadataProperties($libraryId: ID!) {
+    library(id: $libraryId) {
+      customMetadataProperties {
+        id
+        name
+        type {
+          __typename
+          ... on CustomMetadataPropertyTypeSelect {
+            options {
+              id
+              value
+            }
+          }
+          ... on CustomMetadataPropertyTypeMultiSelect {
+            options {
+              id
+              value
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL Mutations (require a token with the basic:write scope)
+const UPDATE_ASSET_MUTATION = `
+  mutation UpdateAsset($input: UpdateAssetInput!) {
+    updateAsset(input: $input) {
+      asset {
+        id
+      }
+    }
+  }
+`;
+
+/**
+ * Reads a Frontify library through the GraphQL API at `https://<domain>/graphql`
+ */
+export class GraphQLDataSource implements FrontifyDataSource {
+    readonly domain: string;
+    readonly libraryId: string;
+    private transport: GraphQLTransport;
+    private authentication: GraphQLAuthentication;
+    private onPartialData?: (error: PartialDataError) => void;
+
+    constructor(
+        domain: string,
+        authentication: GraphQLAuthentication,
+        libraryId: string,
+        options: GraphQLDataSourceOptions = {},
+    ) {
+        this.domain = domain;
+        this.libraryId = libraryId;
+        this.authentication = authentication;
+        this.onPartialData = options.onPartialData;
+
+        if (!domain) {
+            throw new Error('Frontify domain is required.');
+        }
+        if (authentication.type === 'token' && !authentication.token) {
+            throw new Error('API Bearer Token is required. Please configure it in the block settings.');
+        }
+        if (!libraryId) {
+            throw new Error('Library ID is required. Please configure it in the block settings.');
+        }
+
+        this.transport = new GraphQLTransport(this.getGraphQLEndpoint(), authentication, options);
+    }
+
+    private getGraphQLEndpoint(): string {
+        // Handle domain with or without protocol
+        const cleanDomain = this.domain.replace(/^https?:\/\//, '');
+        return `https://${cleanDomain}/graphql`;
+    }
+
+    /**
+     * Execute a GraphQL query through the retrying transport.
+     * Errors without data are thrown as typed errors; errors alongside data are reported
+     * through `onPartialData` and the partial data is returned.
+     */
+    private async executeQuery<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+        try {
+            const { data, errors } = await this.transport.request<T>(query, variables);
+
+            if (errors.length > 0) {
+                if (data === null) {
+                    throw this.classifyErrors(errors);
+                }
+
+                const partialError = new PartialDataError(errors);
+                console.warn(partialError.message);
+                this.onPartialData?.(partialError);
+            }
+
+            return data as T;
+        } catch (error) {
+            console.error('GraphQL query error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Execute a GraphQL mutation. Any GraphQL error fails the mutation, since partial writes can't be trusted;
+     * permission errors point at the basic:write scope.
+     */
+    private async executeMutation<T>(mutation: string, variables: Record<string, unknown>): Promise<T> {
+        const { data, errors } = await this.transport.request<T>(mutation, variables);
+
+        if (errors.length > 0 || data === null) {
+            const error = errors.length > 0 ? this.classifyErrors(errors) : new FrontifyApiError('Empty response');
+            throw error instanceof PermissionError && !error.requiredScope && this.authentication.type === 'token'
+                ? new PermissionError(error.message, 'basic:write', error.status)
+                : error;
+        }
+
+        return data;
+    }
+
+    /**
+     * Like classifyGraphQLErrors, but rejected sessions and missing user permissions get their own errors, whose
+     * guidance is about the signed-in user rather than the token
+     */
+    private classifyErrors(errors: GraphQLErrorEntry[]): FrontifyApiError {
+        const error = classifyGraphQLErrors(errors);
+        if (this.authentication.type !== 'session') {
+            return error;
+        }
+        if (error instanceof AuthenticationError) {
+            return new SessionAuthenticationError(error.status);
+        }
+        return error instanceof PermissionError ? new SessionPermissionError(error.message, error.status) : error;
+    }
+
+    /**
+     * Walk a paginated list page by page until `total` items have been collected.
+     * `fetchPage` returns null when the parent object (library, collection) could not be resolved,
+     * in which case the error from `createNotFoundError` is thrown.
+     */
+    private async fetchAllPages<T>(
+        fetchPage: (page: number, limit: number) => Promise<PaginatedList<T> | null>,
+        createNotFoundError: () => Error,
+    ): Promise<T[]> {
+        const items: T[] = [];
+
+        for (let page = 1; ; page++) {
+            const result = await fetchPage(page, PAGE_LIMIT);
+
+            if (!result?.items) {
+                throw createNotFoundError();
+            }
+
+            items.push(...result.items);
+
+            // Stop once everything is collected, or if the API hands back an empty page early
+            if (items.length >= result.total || result.items.length === 0) {
+                return items;
+            }
+        }
+    }
+
+    async fetchCollections(): Promise<FrontifyCollection[]> {
+        const collections = await this.fetchAllPages(
+            async (page, limit) => {
+                const result = await this.executeQuery<{
+                    library: {
+                        collections: PaginatedList<{
+                            id: string;
+                            name: string;
+                            assets: { total: number };
+                        }>;
+                    } | null;
+                }>(LIBRARY_COLLECTIONS_QUERY, { libraryId: this.libraryId, page, limit });
+
+                return result?.library?.collections ?? null;
+            },
+            () => new LibraryNotFoundError(this.libraryId),
+        );
+
+        return collections.map((col) => ({
+            id: col.id,
+            name: col.name,
+            assetCount: col.assets?.total || 0,
+        }));
+    }
+
+    async fetchCollectionAssetRefs(collectionId: string): Promise<AssetReference[]> {
+        return this.fetchAllPages(
+            async (page, limit) => {
+                const result = await this.executeQuery<{
+                    node: {
+                        id: string;
+                        assets: PaginatedList<AssetReference>;
+                    } | null;
+                }>(COLLECTION_ASSET_IDS_QUERY, { collectionId, page, limit });
+
+                return result?.node?.assets ?? null;
+            },
+            () => new FrontifyApiError('Collection not found'),
+        );
+    }
+
+    async fetchLibraryAssetRefs(): Promise<AssetReference[]> {
+        return this.fetchAllPages(
+            async (page, limit) => {
+                const result = await this.executeQuery<{
+                    library: {
+                        assets: PaginatedList<AssetReference>;
+                    } | null;
+                }>(LIBRARY_ASSET_IDS_QUERY, { libraryId: this.libraryId, page, limit });
+
+                return result?.library?.assets ?? null;
+            },
+            () => new LibraryNotFoundError(this.libraryId),
+        );
+    }
+
+    async fetchAssetsByIds(assetIds: string[]): Promise<FrontifyAsset[]> {
+        const result = await this.executeQuery<{
+            assets: (FrontifyAsset | null)[];
+        }>(ASSETS_BY_IDS_QUERY, { ids: assetIds });
+
+        if (!result?.assets) {
+            throw new FrontifyApiError('Invalid response structure from Frontify API');
+        }
+
+        // With partial data, assets that failed to resolve come back as null
+        return result.assets.filter((asset): asset is FrontifyAsset => asset !== null);
+    }
+
+    async fetchCustomMetadataProperties(): Promise<CustomMetadataPropertyDefinition[]> {
+        const result = await this.executeQuery<{
+            library: {
+                customMetadataProperties: {
+                    id: string;
+                    name: string;
+                    type: { __typename: string; options?: { id: string; value: string }[] } | null;
+                }[];
+            } | null;
+        }>(CUSTOM_METADATA_PROPERTIES_QUERY, { libraryId: this.libraryId });
+
+        if (!result?.library) {
+            throw new LibraryNotFoundError(this.libraryId);
+        }
+
+        return result.library.customMetadataProperties.map((property) => ({
+            id: property.id,
+            name: property.name,
+            type: property.type?.__typename ?? '',
+            options: property.type?.options ?? [],
+        }));
+    }
+
+    async updateAsset(assetId: string, data: AssetUpdateData): Promise<void> {
+        await this.executeMutation(UPDATE_ASSET_MUTATION, { input: { id: assetId, data } });
+    }
+}
@@ -0,0 +1,208 @@
+import {
+    AuthenticationError,
+    FrontifyApiError,
+    NetworkError,
+    PermissionError,
+    RateLimitError,
+    RequestTimeoutError,
+    SessionAuthenticationError,
+    SessionPermissionError,
+    type GraphQLErrorEntry,
+} from './errors';
+
+export interface GraphQLTransportOptions {
+    /** Retries after the first attempt for 429, 5xx, timeouts and network failures. */
+    maxRetries?: number;
+    /** Abort a single attempt after this many milliseconds. */
+    timeoutMs?: number;
+    /** Delay before the first retry; doubled on every further retry. */
+    baseDelayMs?: number;
+    /** Upper bound for a single backoff delay, including `Retry-After`. */
+    maxDelayMs?: number;
+}
+
+/**
+ * Posts a JSON body to a path on the origin of the Frontify page hosting the block, as the signed-in user, and
+ * answers with the HTTP status and the parsed response body. The block sends these through App Bridge's HttpClient.
+ */
+export type SessionRequest = (
+    path: string,
+    body: Record<string, unknown>,
+) => Promise<{ status: number; body: unknown }>;
+
+/**
+ * How requests are authenticated: with an API bearer token, or as the user signed in to the Frontify page hosting
+ * the block, through `request`. Session requests go to the page's own origin, not to the configured domain.
+ */
+export type GraphQLAuthentication = { type: 'token'; token: string } | { type: 'session'; request: SessionRequest };
+
+export interface GraphQLResult<T> {
+    data: T | null;
+    errors: GraphQLErrorEntry[];
+}
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parse a `Retry-After` header, given either as delta seconds or as an HTTP date.
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) {
+        return undefined;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Sends GraphQL requests to a Frontify endpoint.
+ * Retries rate-limited (429), server (5xx), timed-out and network-failed requests with exponential backoff,
+ * and maps HTTP failures to the typed errors in `./errors`. GraphQL-level errors are returned, not thrown,
+ * so the caller can decide whether partial data is usable.
+ */
+export class GraphQLTransport {
+    private endpoint: string;
+    private authentication: GraphQLAuthentication;
+    private maxRetries: number;
+    private timeoutMs: number;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+
+    constructor(endpoint: string, authentication: GraphQLAuthentication, options: GraphQLTransportOptions = {}) {
+        this.endpoint = endpoint;
+        this.authentication = authentication;
+        this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+        this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    }
+
+    async request<T>(query: string, variables: Record<string, unknown> = {}): Promise<GraphQLResult<T>> {
+        for (let attempt = 0; ; attempt++) {
+            const canRetry = attempt < this.maxRetries;
+            let response: Response;
+
+            try {
+                response = await this.send(query, variables);
+            } catch (error) {
+                if (canRetry) {
+                    console.warn(`GraphQL request failed, retrying (attempt ${attempt + 1}):`, error);
+                    await sleep(this.getBackoffDelay(attempt));
+                    continue;
+                }
+                throw error;
+            }
+
+            if (response.status === 429) {
+                const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+                if (canRetry) {
+                    console.warn(`Rate limited by Frontify, retrying (attempt ${attempt + 1})`);
+                    await sleep(Math.min(this.maxDelayMs, retryAfterMs ?? this.getBackoffDelay(attempt)));
+                    continue;
+                }
+                throw new RateLimitError(retryAfterMs);
+            }
+
+            if (response.status >= 500) {
+                if (canRetry) {
+                    console.warn(`Frontify responded with ${response.status}, retrying (attempt ${attempt + 1})`);
+                    await sleep(this.getBackoffDelay(attempt));
+                    continue;
+                }
+                throw new NetworkError(`Frontify responded with HTTP ${response.status}`, response.status);
+            }
+
+            if (response.status === 401) {
+                throw this.authentication.type === 'session'
+                    ? new SessionAuthenticationError(response.status)
+                    : new AuthenticationError(undefined, response.status);
+            }
+
+            if (response.status === 403) {
+                throw this.authentication.type === 'session'
+                    ? new SessionPermissionError(undefined, response.status)
+                    : new PermissionError('The API token is not allowed to perform this request.', undefined, 403);
+            }
+
+            if (!response.ok) {
+                throw new FrontifyApiError(`HTTP error! status: ${response.status}`, response.status);
+            }
+
+            const body = (await response.json()) as { data?: T | null; errors?: GraphQLErrorEntry[] };
+
+            return {
+                data: body.data ?? null,
+                errors: body.errors ?? [],
+            };
+        }
+    }
+
+    /**
+     * Perform a single attempt, converting aborts and fetch failures into typed errors.
+     */
+    private async send(query: string, variables: Record<string, unknown>): Promise<Response> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        try {
+            if (this.authentication.type === 'session') {
+                return await this.sendWithSession(this.authentication.request, { query, variables }, controller.signal);
+            }
+            return await fetch(this.endpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${this.authentication.token}`,
+                },
+                body: JSON.stringify({ query, variables }),
+                credentials: 'omit',
+                signal: controller.signal,
+            });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new RequestTimeoutError(this.timeoutMs);
+            }
+            throw new NetworkError(error instanceof Error ? error.message : 'Network request failed');
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    /**
+     * Send the request as the signed-in user and wrap the answer in a Response, so it is retried and mapped to
+     * errors like a token request. The session request can't be cancelled, so a timeout only stops waiting for it.
+     */
+    private async sendWithSession(
+        request: SessionRequest,
+        body: Record<string, unknown>,
+        signal: AbortSignal,
+    ): Promise<Response> {
+        const aborted = new Promise<never>((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('Request aborted')));
+        });
+        const { status, body: responseBody } = await Promise.race([
+            request(new URL(this.endpoint).pathname, body),
+            aborted,
+        ]);
+        return new Response(JSON.stringify(responseBody ?? {}), { status });
+    }
+
+    /**
+     * Exponential backoff with jitter, so parallel batches don't retry in lockstep.
+     */
+    private getBackoffDelay(attempt: number): number {
+        const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        return delay / 2 + Math.random() * (delay / 2);
+    }
+}
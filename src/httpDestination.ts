@@ -0,0 +1,164 @@
+import { ExportDestinationError } from './errors';
+import { type ExportFile, type HttpDestination, type HttpDestinationResponse, type Settings } from './types';
+
+export const DEFAULT_CHUNK_SIZE_MB = 0;
+
+// Header names as RFC 9110 tokens; values must not span lines
+const HEADER_LINE_PATTERN = /^([\w!#$%&'*+.^`|~-]+)\s*:\s*(.*)$/;
+
+/**
+ * Parse the destination headers setting: one `Name: value` per line. Empty lines and lines starting with `#`
+ * are skipped; every other line that is not a header is reported in `errors`.
+ */
+export const parseDestinationHeaders = (
+    text: string | undefined,
+): { headers: Record<string, string>; errors: string[] } => {
+    const headers: Record<string, string> = {};
+    const errors: string[] = [];
+
+    for (const [index, rawLine] of (text ?? '').split(/\r?\n/).entries()) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+        const match = HEADER_LINE_PATTERN.exec(line);
+        if (match) {
+            headers[match[1]] = match[2];
+        } else {
+            errors.push(`Line ${index + 1}: "${line}" is not a "Name: value" header`);
+        }
+    }
+
+    return { headers, errors };
+};
+
+/**
+ * Whether `value` is an absolute http: or https: URL
+ */
+export const isHttpUrl = (value: string | undefined): boolean => {
+    try {
+        const { protocol } = new URL(value ?? '');
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * The HTTP destination configured in the block settings, or null when exports are downloaded
+ */
+export const getHttpDestination = (settings: Settings): HttpDestination | null => {
+    if (settings.exportDestination !== 'http') {
+        return null;
+    }
+    if (!isHttpUrl(settings.destinationUrl)) {
+        throw new ExportDestinationError('The export destination URL is missing or not an http(s) address.');
+    }
+
+    const chunkSizeMb = Number.parseFloat(settings.destinationChunkSizeMb ?? '');
+    return {
+        url: settings.destinationUrl ?? '',
+        method: settings.destinationMethod === 'PUT' ? 'PUT' : 'POST',
+        headers: parseDestinationHeaders(settings.destinationHeaders).headers,
+        auth:
+            settings.destinationAuth === 'bearer'
+                ? { type: 'bearer', token: settings.destinationToken ?? '' }
+                : settings.destinationAuth === 'basic'
+                  ? {
+                        type: 'basic',
+                        username: settings.destinationUsername ?? '',
+                        password: settings.destinationPassword ?? '',
+                    }
+                  : { type: 'none' },
+        chunkSizeBytes: chunkSizeMb > 0 ? Math.round(chunkSizeMb * 1024 * 1024) : 0,
+    };
+};
+
+/**
+ * Whether the settings hold a token or password for the destination. Block settings reach every viewer's browser,
+ * so editors are warned about them.
+ */
+export const hasDestinationCredentials = (settings: Settings): boolean =>
+    settings.exportDestination === 'http' &&
+    ((settings.destinationAuth === 'bearer' && Boolean(settings.destinationToken)) ||
+        (settings.destinationAuth === 'basic' && Boolean(settings.destinationPassword)));
+
+const getAuthorizationHeader = ({ auth }: HttpDestination): Record<string, string> => {
+    switch (auth.type) {
+        case 'bearer':
+            return { Authorization: `Bearer ${auth.token}` };
+        case 'basic': {
+            // btoa only takes Latin-1, so encode the credentials as UTF-8 first
+            const credentials = new TextEncoder().encode(`${auth.username}:${auth.password}`);
+            return { Authorization: `Basic ${btoa(String.fromCodePoint(...credentials))}` };
+        }
+        default:
+            return {};
+    }
+};
+
+const toBytes = (content: string | Uint8Array): Uint8Array =>
+    typeof content === 'string' ? new TextEncoder().encode(content) : content;
+
+/**
+ * Send an export file to an HTTP destination. The request body is the file itself, typed by the export format,
+ * with its name in a Content-Disposition header. With `chunkSizeBytes`, larger files are sent in consecutive
+ * requests of that size, each with a `Content-Range: bytes start-end/total` header and the same `X-Upload-Id`,
+ * so the receiver can put them back together. Any non-2xx answer stops the upload.
+ */
+export const uploadExportFile = async (
+    file: ExportFile,
+    destination: HttpDestination,
+    onProgress?: (progress: { loaded: number; total: number }) => void,
+): Promise<HttpDestinationResponse> => {
+    const bytes = toBytes(file.content);
+    const total = bytes.length;
+    const chunkSize =
+        destination.chunkSizeBytes > 0 && total > destination.chunkSizeBytes ? destination.chunkSizeBytes : total;
+    const isChunked = chunkSize < total;
+    const uploadId = isChunked ? crypto.randomUUID() : null;
+    const headers = {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.filename.replaceAll('"', '')}"`,
+        ...getAuthorizationHeader(destination),
+        ...destination.headers,
+    };
+
+    let response: Response | null = null;
+    let requestCount = 0;
+    // An empty file still takes one request
+    for (let start = 0; start < total || requestCount === 0; start += chunkSize) {
+        const chunk = bytes.subarray(start, Math.min(start + chunkSize, total));
+        requestCount++;
+        try {
+            response = await fetch(destination.url, {
+                method: destination.method,
+                headers: uploadId
+                    ? {
+                          ...headers,
+                          'Content-Range': `bytes ${start}-${start + chunk.length - 1}/${total}`,
+                          'X-Upload-Id': uploadId,
+                      }
+                    : headers,
+                body: new Blob([new Uint8Array(chunk)]),
+            });
+        } catch (error) {
+            // Browsers report blocked cross-origin requests like network failures
+            const reason = error instanceof Error ? error.message : 'network error';
+            throw new ExportDestinationError(
+                `Could not reach the export destination (${reason}). It must be online and allow cross-origin requests from this page.`,
+            );
+        }
+        if (!response.ok) {
+            const status = [response.status, response.statusText].filter(Boolean).join(' ');
+            const part = isChunked ? ` to part ${requestCount}` : '';
+            throw new ExportDestinationError(
+                `The export destination answered with HTTP ${status}${part}.`,
+                response.status,
+            );
+        }
+        onProgress?.({ loaded: start + chunk.length, total });
+    }
+
+    return { status: response?.status ?? 0, statusText: response?.statusText ?? '', requestCount };
+};
@@ -0,0 +1,147 @@
+import {
+    type ExportChanges,
+    type ExportSource,
+    type FrontifyAsset,
+    type StructuredAsset,
+    type StructuredCustomMetadata,
+    type StructuredExportCollection,
+} from './types';
+
+/**
+ * Identifies the structured export format. Bump JSON_EXPORT_SCHEMA_VERSION whenever the shape of
+ * StructuredAsset or the envelopes below changes: minor for added fields, major for renamed or removed ones.
+ */
+export const JSON_EXPORT_SCHEMA = 'frontify-collection-export';
+export const JSON_EXPORT_SCHEMA_VERSION = '1.3';
+
+export const JSON_MIME_TYPE = 'application/json;charset=utf-8';
+export const NDJSON_MIME_TYPE = 'application/x-ndjson;charset=utf-8';
+
+/**
+ * Keep the raw custom metadata structure, keyed by property ID so that properties sharing a name stay apart.
+ */
+const toStructuredCustomMetadata = (asset: FrontifyAsset): Record<string, StructuredCustomMetadata> => {
+    const customMetadata: Record<string, StructuredCustomMetadata> = {};
+
+    for (const metadata of asset.customMetadata ?? []) {
+        if (!metadata.property?.id) {
+            continue;
+        }
+
+        const multiple = metadata.__typename === 'CustomMetadataValues' || Array.isArray(metadata.values);
+        let values: StructuredCustomMetadata['values'] = [];
+        if (Array.isArray(metadata.values)) {
+            values = metadata.values;
+        } else if (metadata.value !== undefined && metadata.value !== null) {
+            values = [metadata.value];
+        }
+
+        customMetadata[metadata.property.id] = {
+            propertyId: metadata.property.id,
+            propertyName: metadata.property.name,
+            multiple,
+            values,
+        };
+    }
+
+    return customMetadata;
+};
+
+const toCollectionReference = (collection: StructuredExportCollection): StructuredExportCollection => ({
+    id: collection.id,
+    name: collection.name,
+});
+
+/**
+ * The collections an asset belongs to: its recorded memberships in merged and library exports,
+ * otherwise the exported collection.
+ */
+const getAssetCollections = (asset: FrontifyAsset, source: ExportSource): StructuredExportCollection[] =>
+    (source.assetCollections ? (source.assetCollections.get(asset.id) ?? []) : source.collections).map(
+        toCollectionReference,
+    );
+
+/**
+ * Envelope fields shared by JSON and NDJSON: `collection` is the exported collection,
+ * or null for merged and library exports. Incremental exports add the time they include changes since.
+ */
+const getEnvelope = (source: ExportSource, exportedAt: Date, changes?: ExportChanges | null) => ({
+    schema: JSON_EXPORT_SCHEMA,
+    schemaVersion: JSON_EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    scope: source.scope,
+    collection:
+        source.scope === 'collection' && source.collections.length === 1
+            ? toCollectionReference(source.collections[0])
+            : null,
+    collections: source.collections.map(toCollectionReference),
+    ...(changes && { changedSince: changes.since }),
+});
+
+export const toStructuredAsset = (
+    asset: FrontifyAsset,
+    collections: StructuredExportCollection[] = [],
+): StructuredAsset => ({
+    id: asset.id,
+    collections,
+    type: asset.__typename ?? null,
+    title: asset.title ?? null,
+    description: asset.description ?? null,
+    status: asset.status ?? null,
+    createdAt: asset.createdAt ?? null,
+    modifiedAt: asset.modifiedAt ?? null,
+    expiresAt: asset.expiresAt ?? null,
+    copyright: asset.copyright ?? null,
+    tags: asset.tags ?? [],
+    licenses: asset.licenses ?? [],
+    previewUrl: asset.previewUrl ?? null,
+    downloadUrl: asset.downloadUrl ?? null,
+    alternativeText: asset.alternativeText ?? null,
+    duration: asset.duration ?? null,
+    customMetadata: toStructuredCustomMetadata(asset),
+});
+
+/**
+ * A single JSON document: an envelope describing the export with every asset in `assets`,
+ * and for incremental exports the IDs of assets removed since in `removedAssetIds`.
+ */
+export const createJsonExport = (
+    assets: FrontifyAsset[],
+    source: ExportSource,
+    exportedAt = new Date(),
+    changes?: ExportChanges | null,
+): string =>
+    JSON.stringify(
+        {
+            ...getEnvelope(source, exportedAt, changes),
+            assetCount: assets.length,
+            assets: assets.map((asset) => toStructuredAsset(asset, getAssetCollections(asset, source))),
+            ...(changes && { removedAssetIds: changes.removedAssetIds }),
+        },
+        null,
+        2,
+    );
+
+/**
+ * Newline-delimited JSON: one self-describing line per asset, so files can be streamed and concatenated.
+ * Incremental exports end with one line per removed asset, with `removedAssetId` instead of `asset`.
+ */
+export const createNdjsonExport = (
+    assets: FrontifyAsset[],
+    source: ExportSource,
+    exportedAt = new Date(),
+    changes?: ExportChanges | null,
+): string =>
+    [
+        ...assets.map((asset) => ({
+            ...getEnvelope(source, exportedAt, changes),
+            asset: toStructuredAsset(asset, getAssetCollections(asset, source)),
+        })),
+        ...(changes?.removedAssetIds ?? []).map((removedAssetId) => ({
+            ...getEnvelope(source, exportedAt, changes),
+            removedAssetId,
+        })),
+    ]
+        .map((line) => JSON.stringify(line))
+        .join('\n')
+        .concat('\n');
@@ -0,0 +1,199 @@
+const DATABASE_NAME = 'collection-metadata-export';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'entries';
+// Outside every namespace: when each namespace was last opened
+const NAMESPACE_USE_PREFIX = 'namespace-used:';
+// Namespaces not opened for this long, e.g. of revoked tokens or other libraries, are deleted
+const UNUSED_NAMESPACE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CachedEntry<T> {
+    /** Milliseconds since the epoch */
+    storedAt: number;
+    value: T;
+}
+
+interface StoredEntry<T> extends CachedEntry<T> {
+    key: string;
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const whenComplete = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    return toPromise(request);
+};
+
+const prefixRange = (prefix: string): IDBKeyRange => IDBKeyRange.bound(prefix, `${prefix}\uFFFF`);
+
+/**
+ * Record that `namespace` was opened, and delete the entries of every other namespace that was not opened within
+ * UNUSED_NAMESPACE_MAX_AGE_MS
+ */
+const recordNamespaceUse = async (database: IDBDatabase, namespace: string): Promise<void> => {
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const now = Date.now();
+    const ownKey = NAMESPACE_USE_PREFIX + namespace;
+
+    const uses = store.getAll(prefixRange(NAMESPACE_USE_PREFIX)) as IDBRequest<StoredEntry<null>[]>;
+    uses.onsuccess = () => {
+        for (const { key, storedAt } of uses.result) {
+            if (key !== ownKey && now - storedAt > UNUSED_NAMESPACE_MAX_AGE_MS) {
+                store.delete(prefixRange(key.slice(NAMESPACE_USE_PREFIX.length)));
+                store.delete(key);
+            }
+        }
+    };
+    store.put({ key: ownKey, storedAt: now, value: null } satisfies StoredEntry<null>);
+    await whenComplete(transaction);
+};
+
+/**
+ * Part of a SHA-256 hash of the credential: tokens with different scopes, and different users, may see different
+ * assets, so each gets its own cache, without the token itself being stored
+ */
+const hashCredential = async (credential: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(credential));
+    return [...new Uint8Array(digest)]
+        .slice(0, 12)
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+};
+
+/**
+ * Persistent key-value cache in IndexedDB for one library and token or user. Every entry records when it was stored,
+ * so callers can apply their own TTL. Caches not opened for 30 days are deleted when another one is opened.
+ */
+export class MetadataCache {
+    private database: IDBDatabase;
+    private namespace: string;
+
+    private constructor(database: IDBDatabase, namespace: string) {
+        this.database = database;
+        this.namespace = namespace;
+    }
+
+    /**
+     * The cache of the given library and credential (the API token, or an ID of the signed-in user), or null where
+     * IndexedDB is not available (Node, some private browsing modes) or can't be opened
+     */
+    static async open(libraryId: string, credential: string): Promise<MetadataCache | null> {
+        if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) {
+            return null;
+        }
+        try {
+            const [database, credentialHash] = await Promise.all([openDatabase(), hashCredential(credential)]);
+            const namespace = `${libraryId}:${credentialHash}:`;
+            await recordNamespaceUse(database, namespace);
+            return new MetadataCache(database, namespace);
+        } catch (error) {
+            console.warn('Metadata cache is not available, fetching everything from Frontify:', error);
+            return null;
+        }
+    }
+
+    async get<T>(key: string): Promise<CachedEntry<T> | undefined> {
+        const [entry] = await this.getMany<T>([key]);
+        return entry;
+    }
+
+    /**
+     * The entries of the given keys, in the same order; undefined for keys without an entry
+     */
+    async getMany<T>(keys: string[]): Promise<(CachedEntry<T> | undefined)[]> {
+        const store = this.database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        const entries = await Promise.all(
+            keys.map((key) => toPromise(store.get(this.namespace + key) as IDBRequest<StoredEntry<T> | undefined>)),
+        );
+        return entries.map((entry) => entry && { storedAt: entry.storedAt, value: entry.value });
+    }
+
+    /**
+     * Every entry whose key starts with `prefix`, keyed without the namespace
+     */
+    async getByPrefix<T>(prefix: string): Promise<Map<string, CachedEntry<T>>> {
+        const store = this.database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        const entries = await toPromise(
+            store.getAll(prefixRange(this.namespace + prefix)) as IDBRequest<StoredEntry<T>[]>,
+        );
+        return new Map(
+            entries.map((entry) => [
+                entry.key.slice(this.namespace.length),
+                { storedAt: entry.storedAt, value: entry.value },
+            ]),
+        );
+    }
+
+    async set<T>(key: string, value: T): Promise<void> {
+        await this.setMany([[key, value]]);
+    }
+
+    async setMany<T>(entries: [string, T][]): Promise<void> {
+        const transaction = this.database.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const storedAt = Date.now();
+        for (const [key, value] of entries) {
+            store.put({ key: this.namespace + key, storedAt, value } satisfies StoredEntry<T>);
+        }
+        await whenComplete(transaction);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.deleteMany([key]);
+    }
+
+    async deleteMany(keys: string[]): Promise<void> {
+        const transaction = this.database.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        for (const key of keys) {
+            store.delete(this.namespace + key);
+        }
+        await whenComplete(transaction);
+    }
+
+    /**
+     * Mark every entry whose key starts with `prefix` as stored at the epoch, so any TTL treats it as expired
+     * while its value can still be read
+     */
+    async expireByPrefix(prefix: string): Promise<void> {
+        const transaction = this.database.transaction(STORE_NAME, 'readwrite');
+        const cursorRequest = transaction.objectStore(STORE_NAME).openCursor(prefixRange(this.namespace + prefix));
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+                cursor.update({ ...(cursor.value as StoredEntry<unknown>), storedAt: 0 });
+                cursor.continue();
+            }
+        };
+        await whenComplete(transaction);
+    }
+}
+
+/**
+ * How long ago a cached listing was fetched, e.g. "just now", "5 minutes ago" or "2 hours ago"
+ */
+export const formatCacheAge = (storedAt: Date, now = new Date()): string => {
+    const minutes = Math.floor((now.getTime() - storedAt.getTime()) / 60_000);
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return minutes === 1 ? '1 minute ago' : `${minutes} minutes ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+};
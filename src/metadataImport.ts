@@ -0,0 +1,277 @@
+import { strFromU8 } from 'fflate';
+
+import { restoreNeutralizedFormula } from './csvWriter';
+import { DEFAULT_MULTI_VALUE_SEPARATOR } from './customMetadataValues';
+import { getCustomMetadataColumns, resolveColumnKey } from './exportColumns';
+import { TYPE_SPECIFIC_COLUMNS } from './exportProfiles';
+import {
+    type AssetForExport,
+    type AssetUpdateData,
+    type CustomMetadataPropertyDefinition,
+    type ExportProfile,
+    type ImportRecord,
+    type ImportRowPlan,
+    type MetadataImportPlan,
+} from './types';
+import { readXlsxWorkbook } from './xlsxReader';
+
+/**
+ * Standard columns that can be written back with the `updateAsset` mutation.
+ * Every other standard column (dates, URLs, status, tags, ...) is read-only and ignored on import.
+ * `alternativeText` only exists on images and videos, see `TYPE_SPECIFIC_COLUMNS`.
+ */
+export const WRITABLE_STANDARD_COLUMNS = ['title', 'description', 'alternativeText'];
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter that occurs most often outside quotes in the first line.
+ * Spreadsheet apps in many locales save "CSV" with semicolons.
+ */
+const detectDelimiter = (text: string): string => {
+    const counts = new Map(CANDIDATE_DELIMITERS.map((delimiter) => [delimiter, 0]));
+    let inQuotes = false;
+
+    for (const character of text) {
+        if (character === '"') {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && (character === '\n' || character === '\r')) {
+            break;
+        } else if (!inQuotes && counts.has(character)) {
+            counts.set(character, (counts.get(character) ?? 0) + 1);
+        }
+    }
+
+    return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, line breaks inside quotes) into rows of cells
+ */
+export const parseCsv = (text: string): string[][] => {
+    const content = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(content);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let index = 0; index < content.length; index++) {
+        const character = content[index];
+
+        if (inQuotes) {
+            if (character === '"' && content[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else if (character === '"') {
+                inQuotes = false;
+            } else {
+                cell += character;
+            }
+        } else if (character === '"') {
+            inQuotes = true;
+        } else if (character === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (character === '\n' || character === '\r') {
+            if (character === '\r' && content[index + 1] === '\n') {
+                index++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += character;
+        }
+    }
+
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+};
+
+/**
+ * The column key for an import header: the key of the profile column with that label, otherwise the header itself.
+ * Files exported with a profile can therefore be imported with the same profile selected.
+ */
+export const resolveImportColumnKey = (header: string, profile?: ExportProfile | null): string => {
+    const label = header.trim();
+    return profile?.columns.find((column) => column.label === label)?.key ?? label;
+};
+
+const toRecords = (
+    rows: { rowNumber: number; cells: string[] }[],
+    describeRow: (rowNumber: number) => string,
+    profile?: ExportProfile | null,
+): ImportRecord[] => {
+    const nonEmptyRows = rows.filter(({ cells }) => cells.some((cell) => cell.trim()));
+    if (nonEmptyRows.length === 0) {
+        return [];
+    }
+
+    const [header, ...dataRows] = nonEmptyRows;
+    const keys = header.cells.map((cell) => resolveImportColumnKey(cell, profile));
+
+    return dataRows.map(({ rowNumber, cells }) => ({
+        source: describeRow(rowNumber),
+        values: Object.fromEntries(
+            keys.flatMap((key, index): [string, string][] => (key ? [[key, cells[index] ?? '']] : [])),
+        ),
+    }));
+};
+
+/**
+ * Read a CSV or XLSX file into import records. XLSX workbooks are read sheet by sheet,
+ * so files exported with one sheet per asset type can be imported as they are.
+ */
+export const readImportFile = (filename: string, data: Uint8Array, profile?: ExportProfile | null): ImportRecord[] => {
+    const records = filename.toLowerCase().endsWith('.xlsx')
+        ? readXlsxWorkbook(data).flatMap((sheet) =>
+              toRecords(sheet.rows, (rowNumber) => `${sheet.name} row ${rowNumber}`, profile),
+          )
+        : toRecords(
+              // Formulas were prefixed with ' on export, see escapeCsvValue
+              parseCsv(strFromU8(data)).map((cells, index) => ({
+                  rowNumber: index + 1,
+                  cells: cells.map((cell) => restoreNeutralizedFormula(cell)),
+              })),
+              (rowNumber) => `Row ${rowNumber}`,
+              profile,
+          );
+
+    if (!records.some((record) => 'id' in record.values)) {
+        throw new Error(
+            'The file has no "id" column. Import a file exported by this block, keeping the asset ID column.',
+        );
+    }
+
+    return records;
+};
+
+const isMultiSelect = (property: CustomMetadataPropertyDefinition) => property.type.includes('MultiSelect');
+const isSelect = (property: CustomMetadataPropertyDefinition) => property.type.includes('Select');
+
+// prepareAssetsForExport joins multiple custom metadata values with the configured separator
+const splitValues = (value: string, separator: string): string[] =>
+    value
+        .split(separator.trim() || separator)
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+// Multi-select options are compared regardless of order
+const normalizeValue = (value: string, separator: string, property?: CustomMetadataPropertyDefinition): string =>
+    property && isMultiSelect(property)
+        ? splitValues(value, separator)
+              .sort((a, b) => a.localeCompare(b))
+              .join(separator)
+        : value.trim();
+
+const findOptionId = (property: CustomMetadataPropertyDefinition, text: string): string => {
+    const option = property.options.find((candidate) => candidate.value.toLowerCase() === text.toLowerCase());
+    if (!option) {
+        throw new Error(`"${text}" is not an option of ${property.name}`);
+    }
+    return option.id;
+};
+
+const toCustomMetadataValue = (
+    property: CustomMetadataPropertyDefinition,
+    value: string,
+    separator: string,
+): string | string[] | null => {
+    if (!value) {
+        return null;
+    }
+    if (isMultiSelect(property)) {
+        return splitValues(value, separator).map((text) => findOptionId(property, text));
+    }
+    if (isSelect(property)) {
+        return findOptionId(property, value);
+    }
+    return value;
+};
+
+/**
+ * Compare import records with the assets' current flattened metadata and work out the changes per asset.
+ * Nothing is written; rows that cannot be applied carry an `error` instead.
+ * `assetTypes` maps asset IDs to their GraphQL type; changes to type-specific columns of other asset types are errors.
+ * `separator` splits multi-select cells and must match the one the current metadata was flattened with.
+ * Custom metadata columns may be named by property name, by the `Name (property ID)` label of shared names, or by ID.
+ */
+export const createImportPlan = (
+    records: ImportRecord[],
+    currentAssets: Map<string, AssetForExport>,
+    properties: CustomMetadataPropertyDefinition[],
+    assetTypes: Map<string, string | undefined>,
+    separator = DEFAULT_MULTI_VALUE_SEPARATOR,
+): MetadataImportPlan => {
+    const customMetadataColumns = getCustomMetadataColumns(properties);
+    const propertiesById = new Map(properties.map((property) => [property.id, property]));
+    const getProperty = (key: string) => propertiesById.get(resolveColumnKey(key, customMetadataColumns));
+    const fileColumns = [...new Set(records.flatMap((record) => Object.keys(record.values)))];
+    const editableColumns = fileColumns.filter(
+        (key) => WRITABLE_STANDARD_COLUMNS.includes(key) || getProperty(key) !== undefined,
+    );
+    const ignoredColumns = fileColumns.filter((key) => key !== 'id' && !editableColumns.includes(key));
+    const seenAssetIds = new Set<string>();
+
+    const rows = records.map(({ source, values }): ImportRowPlan => {
+        const assetId = (values.id ?? '').trim();
+        const current = currentAssets.get(assetId);
+        const row: ImportRowPlan = { source, assetId, title: current?.title ?? '', changes: [], update: {}, current };
+
+        if (!assetId) {
+            return { ...row, error: 'The id cell is empty' };
+        }
+        if (seenAssetIds.has(assetId)) {
+            return { ...row, error: 'The asset appears more than once in the file; only its first row is applied' };
+        }
+        seenAssetIds.add(assetId);
+        if (!current) {
+            return { ...row, error: 'Asset not found, or not accessible with the configured token' };
+        }
+
+        const update: AssetUpdateData = {};
+        try {
+            for (const key of editableColumns) {
+                if (!(key in values)) {
+                    continue;
+                }
+
+                const property = getProperty(key);
+                const before = normalizeValue(String(current[property?.id ?? key] ?? ''), separator, property);
+                const after = normalizeValue(values[key], separator, property);
+                if (before === after) {
+                    continue;
+                }
+
+                const applicableTypes = TYPE_SPECIFIC_COLUMNS[key];
+                if (!property && applicableTypes && !applicableTypes.includes(assetTypes.get(assetId) ?? '')) {
+                    throw new Error(`Only ${applicableTypes.join(' and ')} assets have ${key}`);
+                }
+
+                row.changes.push({ key, before, after });
+                if (property) {
+                    update.customMetadata = [
+                        ...(update.customMetadata ?? []),
+                        { propertyId: property.id, value: toCustomMetadataValue(property, after, separator) },
+                    ];
+                } else if (key === 'title' && !after) {
+                    throw new Error('The title cannot be empty');
+                } else {
+                    update[key as 'title' | 'description' | 'alternativeText'] = after;
+                }
+            }
+        } catch (error) {
+            return { ...row, error: error instanceof Error ? error.message : String(error) };
+        }
+
+        return { ...row, update };
+    });
+
+    return { rows, editableColumns, ignoredColumns };
+};
@@ -0,0 +1,128 @@
+import { STANDARD_COLUMN_KEYS, TYPE_SPECIFIC_COLUMNS } from './exportProfiles';
+import {
+    type AssetForExport,
+    type ExportColumn,
+    type FieldCompleteness,
+    type FrontifyAsset,
+    type MetadataReport,
+    type QualityIssue,
+    type QualityIssueType,
+} from './types';
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueType, string> = {
+    missingAltText: 'Image without alternative text',
+    missingCopyrightNotice: 'Empty copyright notice',
+    expired: 'Already expired',
+    duplicateTitle: 'Duplicate title',
+};
+
+// Field each issue is about, for the report CSV
+export const QUALITY_ISSUE_FIELDS: Record<QualityIssueType, string> = {
+    missingAltText: 'alternativeText',
+    missingCopyrightNotice: 'copyrightNotice',
+    expired: 'expiresAt',
+    duplicateTitle: 'title',
+};
+
+const isFilled = (value: string | number | undefined): boolean => String(value ?? '').trim() !== '';
+
+const findQualityIssues = (assets: FrontifyAsset[], now: Date): QualityIssue[] => {
+    const issues: QualityIssue[] = [];
+    const assetsByTitle = new Map<string, FrontifyAsset[]>();
+
+    for (const asset of assets) {
+        const title = asset.title || '';
+        const addIssue = (type: QualityIssueType, detail: string) =>
+            issues.push({ type, assetId: asset.id, title, detail });
+
+        if (asset.__typename === 'Image' && !asset.alternativeText?.trim()) {
+            addIssue('missingAltText', 'alternativeText is empty');
+        }
+        if (!asset.copyright?.notice?.trim()) {
+            addIssue('missingCopyrightNotice', 'copyright.notice is empty');
+        }
+
+        const expiresAt = asset.expiresAt ? new Date(asset.expiresAt) : null;
+        if (expiresAt && !Number.isNaN(expiresAt.getTime()) && expiresAt < now) {
+            addIssue('expired', `Expired on ${expiresAt.toISOString().slice(0, 10)}`);
+        }
+
+        const titleKey = title.trim().toLowerCase();
+        if (titleKey) {
+            assetsByTitle.set(titleKey, [...(assetsByTitle.get(titleKey) ?? []), asset]);
+        }
+    }
+
+    for (const duplicates of assetsByTitle.values()) {
+        if (duplicates.length < 2) {
+            continue;
+        }
+        for (const asset of duplicates) {
+            issues.push({
+                type: 'duplicateTitle',
+                assetId: asset.id,
+                title: asset.title || '',
+                detail: `Same title as ${duplicates.length - 1} other ${duplicates.length === 2 ? 'asset' : 'assets'}`,
+            });
+        }
+    }
+
+    return issues;
+};
+
+/**
+ * Fill rate of every standard field and custom metadata property, plus quality issues, for a set of assets.
+ * `exportData` is the output of prepareAssetsForExport for the same assets, in the same order.
+ * `customMetadataColumns` lists the library's custom metadata properties, so properties no asset has a value for
+ * still show up with a fill rate of 0%.
+ */
+export const createMetadataReport = (
+    name: string,
+    assets: FrontifyAsset[],
+    exportData: AssetForExport[],
+    customMetadataColumns: ExportColumn[],
+    now = new Date(),
+): MetadataReport => {
+    const standardColumns = STANDARD_COLUMN_KEYS.filter((key) => key !== 'id').map((key) => ({ key, label: key }));
+    const customKeys = new Set(customMetadataColumns.map((column) => column.key));
+
+    const fields = [...standardColumns, ...customMetadataColumns].map(({ key, label }): FieldCompleteness => {
+        const applicableTypes = TYPE_SPECIFIC_COLUMNS[key];
+        const missingAssetIds: string[] = [];
+        let applicableCount = 0;
+
+        for (const [index, asset] of assets.entries()) {
+            if (applicableTypes && !applicableTypes.includes(asset.__typename ?? '')) {
+                continue;
+            }
+            applicableCount++;
+            if (!isFilled(exportData[index][key])) {
+                missingAssetIds.push(asset.id);
+            }
+        }
+
+        return {
+            key,
+            label,
+            custom: customKeys.has(key),
+            filledCount: applicableCount - missingAssetIds.length,
+            applicableCount,
+            missingAssetIds,
+        };
+    });
+
+    return {
+        name,
+        createdAt: now.toISOString(),
+        assetCount: assets.length,
+        fields,
+        issues: findQualityIssues(assets, now),
+        assetTitles: Object.fromEntries(assets.map((asset) => [asset.id, asset.title || ''])),
+    };
+};
+
+/**
+ * Fill rate as a whole percentage; fields that apply to no asset count as complete
+ */
+export const getFillRate = (field: FieldCompleteness): number =>
+    field.applicableCount === 0 ? 100 : Math.round((field.filledCount / field.applicableCount) * 100);
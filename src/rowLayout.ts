@@ -0,0 +1,57 @@
+import { type AssetForExport, type ExportColumn, type RowLayout } from './types';
+
+export const ROW_LAYOUT_LABELS: Record<RowLayout, string> = {
+    wide: 'One row per asset',
+    explode: 'One row per value of a field',
+    long: 'Long format: asset, field, value',
+};
+
+/** Columns of long format files; `field` holds the column label */
+export const LONG_FORMAT_COLUMNS: ExportColumn[] = [
+    { key: 'id', label: 'id' },
+    { key: 'field', label: 'field' },
+    { key: 'value', label: 'value' },
+];
+
+/**
+ * The separate values of a column for one asset: the listed values of multi-value columns, otherwise the
+ * flattened value as the only one. Empty values are left out.
+ */
+const getValues = (data: AssetForExport, valueLists: Record<string, string[]>, key: string): string[] =>
+    (valueLists[key] ?? [String(data[key] ?? '')]).filter((value) => value !== '');
+
+/**
+ * One row per value of the column `key`, each a copy of the asset's row with that single value in the column.
+ * `valueLists` holds the separate values of the multi-value columns of each asset, in the same order as `exportData`.
+ * Assets without a value keep a single row with the column empty.
+ */
+export const explodeRows = (
+    exportData: AssetForExport[],
+    valueLists: Record<string, string[]>[],
+    key: string,
+): AssetForExport[] =>
+    exportData.flatMap((data, index) => {
+        const values = getValues(data, valueLists[index], key);
+        return values.length > 0 ? values.map((value) => ({ ...data, [key]: value })) : [{ ...data, [key]: '' }];
+    });
+
+/**
+ * Long (tidy) format for analytics tools: one row per asset, column and value, with the column label in `field`.
+ * Multi-value columns get one row per value; empty values get no row.
+ */
+export const createLongRows = (
+    exportData: AssetForExport[],
+    valueLists: Record<string, string[]>[],
+    columns: ExportColumn[],
+): Record<string, string>[] =>
+    exportData.flatMap((data, index) =>
+        columns
+            .filter((column) => column.key !== 'id')
+            .flatMap((column) =>
+                getValues(data, valueLists[index], column.key).map((value) => ({
+                    id: data.id,
+                    field: column.label,
+                    value,
+                })),
+            ),
+    );
@@ -0,0 +1,403 @@
+import { type CustomMetadataPropertyDefinition, type FrontifyAsset } from './types';
+
+/**
+ * A library as FixtureDataSource serves it: collections listing their asset IDs, assets in the shape the
+ * GraphQL API returns them, and the custom metadata property definitions
+ */
+export interface SampleLibrary {
+    domain: string;
+    libraryId: string;
+    collections: { id: string; name: string; assetIds: string[] }[];
+    assets: FrontifyAsset[];
+    properties: CustomMetadataPropertyDefinition[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A flat colored placeholder with the asset title, as a data URL so the demo works without network access
+ */
+const createPreviewUrl = (label: string, color: string): string => {
+    const svg =
+        '<svg xmlns="http://www.w3.org/2000/svg" width="640" height="400" viewBox="0 0 640 400">' +
+        `<rect width="640" height="400" fill="${color}"/>` +
+        `<text x="320" y="212" fill="#ffffff" font-family="sans-serif" font-size="32" text-anchor="middle">${label}</text>` +
+        '</svg>';
+    return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+const createTextFileUrl = (text: string): string => `data:text/plain;charset=utf-8,${encodeURIComponent(text)}`;
+
+const PROPERTIES: CustomMetadataPropertyDefinition[] = [
+    { id: 'property-campaign', name: 'Campaign', type: 'CustomMetadataPropertyTypeText', options: [] },
+    { id: 'property-usage-notes', name: 'Usage Notes', type: 'CustomMetadataPropertyTypeLongText', options: [] },
+    {
+        id: 'property-approval',
+        name: 'Approval',
+        type: 'CustomMetadataPropertyTypeSelect',
+        options: [
+            { id: 'option-approved', value: 'Approved' },
+            { id: 'option-in-review', value: 'In Review' },
+            { id: 'option-rejected', value: 'Rejected' },
+        ],
+    },
+    {
+        id: 'property-region',
+        name: 'Region',
+        type: 'CustomMetadataPropertyTypeMultiSelect',
+        options: [
+            { id: 'option-emea', value: 'EMEA' },
+            { id: 'option-americas', value: 'Americas' },
+            { id: 'option-apac', value: 'APAC' },
+        ],
+    },
+    { id: 'property-shoot-date', name: 'Shoot Date', type: 'CustomMetadataPropertyTypeDate', options: [] },
+    { id: 'property-budget', name: 'Budget', type: 'CustomMetadataPropertyTypeNumber', options: [] },
+    { id: 'property-hero', name: 'Hero Asset', type: 'CustomMetadataPropertyTypeBoolean', options: [] },
+    { id: 'property-source', name: 'Source', type: 'CustomMetadataPropertyTypeUrl', options: [] },
+    // Shares its name with the text property, so exports label both "Campaign (property ID)"
+    {
+        id: 'property-campaign-code',
+        name: 'Campaign',
+        type: 'CustomMetadataPropertyTypeSelect',
+        options: [
+            { id: 'option-spr25', value: 'SPR25' },
+            { id: 'option-fw25', value: 'FW25' },
+        ],
+    },
+];
+
+const text = (id: string, name: string, value: string) => ({
+    __typename: 'CustomMetadataValue',
+    property: { id, name },
+    value,
+});
+
+const campaign = (value: string) => text('property-campaign', 'Campaign', value);
+const usageNotes = (value: string) => text('property-usage-notes', 'Usage Notes', value);
+const shootDate = (value: string) => text('property-shoot-date', 'Shoot Date', value);
+const budget = (value: string) => text('property-budget', 'Budget', value);
+const hero = (value: string) => text('property-hero', 'Hero Asset', value);
+const source = (value: string) => text('property-source', 'Source', value);
+
+// Single select values come as an option ID or as an option object, depending on the API version
+const approval = (optionId: string, asObject = false) => ({
+    __typename: 'CustomMetadataValue',
+    property: { id: 'property-approval', name: 'Approval' },
+    value: asObject ? { optionId } : optionId,
+});
+
+const campaignCode = (optionId: string) => text('property-campaign-code', 'Campaign', optionId);
+
+// Multi-select values likewise come as option IDs or as option objects
+const region = (optionIds: string[], asObjects = false) => ({
+    __typename: 'CustomMetadataValues',
+    property: { id: 'property-region', name: 'Region' },
+    values: asObjects ? optionIds.map((optionId) => ({ optionId })) : optionIds,
+});
+
+/**
+ * The sample library of demo mode: five collections (one of them empty) and an asset outside every collection,
+ * every asset type, each custom metadata property type in every value shape the API returns, a value of a
+ * property that has been deleted, and the problems the metadata report finds. Expiry dates are relative to `now`,
+ * so the expiry dashboard always has expired and soon-expiring assets.
+ */
+export const createSampleLibrary = (now = new Date()): SampleLibrary => {
+    const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS).toISOString();
+
+    const assets: FrontifyAsset[] = [
+        {
+            __typename: 'Image',
+            id: 'sample-image-1',
+            title: 'Spring Hero Banner',
+            description: 'Key visual of the spring campaign, for web and print',
+            status: 'FINISHED',
+            createdAt: '2025-01-14T09:12:00.000Z',
+            modifiedAt: '2025-03-02T16:40:00.000Z',
+            expiresAt: daysFromNow(12),
+            copyright: { status: 'COPYRIGHTED', notice: '© 2025 Studio Lumen' },
+            tags: [
+                { value: 'spring', source: 'MANUAL' },
+                { value: 'hero', source: 'MANUAL' },
+                { value: 'outdoor', source: 'AI' },
+            ],
+            customMetadata: [
+                campaign('Spring 2025'),
+                campaignCode('option-spr25'),
+                approval('option-approved'),
+                region(['option-emea', 'option-americas']),
+                shootDate('2025-01-10'),
+                budget('4200.5'),
+                hero('true'),
+                source('https://studio-lumen.example/shoots/spring-2025'),
+                usageNotes('Use on light backgrounds only.\nCrop to 16:9 for web banners.'),
+            ],
+            previewUrl: createPreviewUrl('Spring Hero Banner', '#16a34a'),
+            downloadUrl: createPreviewUrl('Spring Hero Banner', '#16a34a'),
+            alternativeText: 'Woman in a yellow coat walking through a blooming park',
+            extension: 'svg',
+        },
+        {
+            __typename: 'Image',
+            id: 'sample-image-2',
+            title: 'Spring Social Square',
+            description: 'Square crop for social media',
+            status: 'FINISHED',
+            createdAt: '2025-01-15T10:00:00.000Z',
+            modifiedAt: '2025-02-20T08:15:00.000Z',
+            expiresAt: daysFromNow(-20),
+            copyright: { status: 'COPYRIGHTED', notice: '' },
+            tags: [
+                { value: 'spring', source: 'MANUAL' },
+                { value: 'social', source: 'MANUAL' },
+            ],
+            customMetadata: [
+                campaign('Spring 2025'),
+                campaignCode('option-spr25'),
+                approval('option-in-review', true),
+                region(['option-emea', 'option-apac'], true),
+                shootDate('2025-01-10T14:30:00.000Z'),
+                hero('false'),
+            ],
+            previewUrl: createPreviewUrl('Spring Social Square', '#22c55e'),
+            downloadUrl: createPreviewUrl('Spring Social Square', '#22c55e'),
+            alternativeText: '',
+            extension: 'svg',
+        },
+        {
+            __typename: 'Image',
+            id: 'sample-image-3',
+            title: 'Sneaker Side View',
+            description: 'Product shot on white, side view',
+            status: 'FINISHED',
+            createdAt: '2024-11-03T13:45:00.000Z',
+            modifiedAt: '2025-01-08T11:05:00.000Z',
+            copyright: { status: 'COPYRIGHTED', notice: 'Photo: +41 44 555 01 23, in-house studio' },
+            tags: [
+                { value: 'product', source: 'MANUAL' },
+                { value: 'footwear', source: 'AI' },
+            ],
+            customMetadata: [
+                approval('option-approved'),
+                region(['option-emea', 'option-americas', 'option-apac']),
+                budget('1,250'),
+                hero('yes'),
+                // Value of a property that has since been deleted from the library
+                text('property-legacy-sku', 'Legacy SKU', 'SNK-0042'),
+            ],
+            previewUrl: createPreviewUrl('Sneaker Side View', '#2563eb'),
+            downloadUrl: createPreviewUrl('Sneaker Side View', '#2563eb'),
+            alternativeText: 'White sneaker with a blue sole, seen from the side',
+            extension: 'svg',
+        },
+        {
+            __typename: 'Image',
+            id: 'sample-image-4',
+            title: 'Sneaker Side View',
+            description: 'Alternative take with shadow',
+            status: 'FINISHED',
+            createdAt: '2024-11-03T13:50:00.000Z',
+            modifiedAt: '2024-11-03T13:50:00.000Z',
+            copyright: { status: 'UNKNOWN', notice: '' },
+            tags: [{ value: 'product', source: 'MANUAL' }],
+            customMetadata: [approval('option-rejected'), region([])],
+            previewUrl: createPreviewUrl('Sneaker Side View (alt)', '#1d4ed8'),
+            downloadUrl: createPreviewUrl('Sneaker Side View (alt)', '#1d4ed8'),
+            extension: 'svg',
+        },
+        {
+            __typename: 'Video',
+            id: 'sample-video-1',
+            title: 'Brand Film 2025',
+            description: 'Main brand film, 30 second cut',
+            status: 'FINISHED',
+            createdAt: '2025-02-01T08:00:00.000Z',
+            modifiedAt: '2025-02-28T17:30:00.000Z',
+            expiresAt: daysFromNow(90),
+            copyright: { status: 'COPYRIGHTED', notice: '© 2025 Northlight Films' },
+            tags: [
+                { value: 'brand', source: 'MANUAL' },
+                { value: 'film', source: 'MANUAL' },
+            ],
+            customMetadata: [
+                campaign('Brand 2025'),
+                approval('option-approved'),
+                region(['option-americas']),
+                shootDate('2025-01-22'),
+                budget('38000'),
+                hero('true'),
+                source('https://northlight.example/projects/brand-film-2025'),
+            ],
+            previewUrl: createPreviewUrl('Brand Film 2025', '#9333ea'),
+            downloadUrl: createTextFileUrl('Brand Film 2025: video placeholder of the sample library'),
+            alternativeText: 'People running along a beach at sunrise',
+            duration: '30.04',
+            extension: 'mp4',
+        },
+        {
+            __typename: 'Video',
+            id: 'sample-video-2',
+            title: 'Sneaker 360 Spin',
+            description: '=HYPERLINK("https://example.com","Product spin")',
+            status: 'PROCESSING',
+            createdAt: '2025-03-10T15:20:00.000Z',
+            modifiedAt: '2025-03-10T15:20:00.000Z',
+            copyright: { status: 'COPYRIGHTED', notice: 'In-house studio' },
+            tags: [{ value: 'product', source: 'MANUAL' }],
+            customMetadata: [campaignCode('option-fw25'), approval('option-in-review'), budget('not budgeted')],
+            previewUrl: createPreviewUrl('Sneaker 360 Spin', '#7c3aed'),
+            downloadUrl: createTextFileUrl('Sneaker 360 Spin: video placeholder of the sample library'),
+            duration: '12.5',
+            extension: 'mov',
+        },
+        {
+            __typename: 'Document',
+            id: 'sample-document-1',
+            title: 'Brand Guidelines',
+            description: 'Logo, color and typography rules',
+            status: 'FINISHED',
+            createdAt: '2024-06-01T09:00:00.000Z',
+            modifiedAt: '2025-02-14T12:00:00.000Z',
+            copyright: { status: 'COPYRIGHTED', notice: '© 2025 Example Brand AG' },
+            tags: [
+                { value: 'guidelines', source: 'MANUAL' },
+                { value: 'brand', source: 'MANUAL' },
+            ],
+            customMetadata: [
+                approval('option-approved'),
+                region(['option-emea', 'option-americas', 'option-apac'], true),
+                usageNotes('Internal and agency use; share the latest version only.'),
+            ],
+            previewUrl: createPreviewUrl('Brand Guidelines', '#ea580c'),
+            downloadUrl: createTextFileUrl('Brand Guidelines: document placeholder of the sample library'),
+            extension: 'pdf',
+        },
+        {
+            __typename: 'Document',
+            id: 'sample-document-2',
+            title: 'Press Release Spring Launch',
+            description: 'Press release for the spring collection launch',
+            status: 'FINISHED',
+            createdAt: '2025-03-01T07:30:00.000Z',
+            modifiedAt: '2025-03-03T09:45:00.000Z',
+            expiresAt: daysFromNow(-2),
+            copyright: { status: 'PUBLIC_DOMAIN', notice: 'Free for editorial use' },
+            tags: [{ value: 'press', source: 'MANUAL' }],
+            customMetadata: [
+                campaign('Spring 2025'),
+                campaignCode('option-spr25'),
+                approval('option-approved'),
+                region(['option-emea']),
+                shootDate('03/01/2025'),
+            ],
+            previewUrl: createPreviewUrl('Press Release', '#f97316'),
+            downloadUrl: createTextFileUrl('Press Release Spring Launch: document placeholder of the sample library'),
+            extension: 'docx',
+        },
+        {
+            __typename: 'Document',
+            id: 'sample-document-3',
+            title: 'Media Contacts',
+            description: '',
+            status: 'FINISHED',
+            createdAt: '2025-03-01T07:35:00.000Z',
+            modifiedAt: '2025-03-01T07:35:00.000Z',
+            copyright: { status: 'UNKNOWN', notice: '' },
+            tags: [],
+            customMetadata: [],
+            downloadUrl: createTextFileUrl('name,email\nPress Office,press@example.com\n'),
+            extension: 'csv',
+        },
+        {
+            __typename: 'Audio',
+            id: 'sample-audio-1',
+            title: 'Sonic Logo',
+            description: 'Three-note audio logo, end of every spot',
+            status: 'FINISHED',
+            createdAt: '2024-09-12T10:10:00.000Z',
+            modifiedAt: '2024-09-12T10:10:00.000Z',
+            copyright: { status: 'COPYRIGHTED', notice: '© 2024 Soundmark' },
+            tags: [
+                { value: 'audio', source: 'MANUAL' },
+                { value: 'brand', source: 'MANUAL' },
+            ],
+            customMetadata: [approval('option-approved', true), hero('1'), budget('1500')],
+            previewUrl: createPreviewUrl('Sonic Logo', '#db2777'),
+            downloadUrl: createTextFileUrl('Sonic Logo: audio placeholder of the sample library'),
+            duration: '2.8',
+            extension: 'wav',
+        },
+        {
+            __typename: 'Audio',
+            id: 'sample-audio-2',
+            title: 'Radio Spot Spring',
+            description: 'Radio spot, 20 seconds, German',
+            status: 'FINISHED',
+            createdAt: '2025-02-25T14:00:00.000Z',
+            modifiedAt: '2025-02-26T09:00:00.000Z',
+            expiresAt: daysFromNow(25),
+            copyright: { status: 'COPYRIGHTED', notice: '© 2025 Radio Works GmbH' },
+            tags: [
+                { value: 'spring', source: 'MANUAL' },
+                { value: 'radio', source: 'MANUAL' },
+            ],
+            customMetadata: [
+                campaign('Spring 2025'),
+                campaignCode('option-spr25'),
+                approval('option-in-review'),
+                region(['option-emea']),
+                usageNotes('Airing in DACH only. Überarbeitete Fassung folgt.'),
+            ],
+            previewUrl: createPreviewUrl('Radio Spot Spring', '#be185d'),
+            downloadUrl: createTextFileUrl('Radio Spot Spring: audio placeholder of the sample library'),
+            duration: '20',
+            extension: 'mp3',
+        },
+        {
+            __typename: 'Image',
+            id: 'sample-image-5',
+            title: 'Office Team Photo',
+            description: 'Not in any collection; only exported with the entire library',
+            status: 'FINISHED',
+            createdAt: '2024-05-20T12:00:00.000Z',
+            modifiedAt: '2024-05-20T12:00:00.000Z',
+            copyright: { status: 'COPYRIGHTED', notice: '© 2024 Example Brand AG' },
+            tags: [{ value: 'team', source: 'MANUAL' }],
+            customMetadata: [hero('false')],
+            previewUrl: createPreviewUrl('Office Team Photo', '#0891b2'),
+            downloadUrl: createPreviewUrl('Office Team Photo', '#0891b2'),
+            alternativeText: 'Twelve people in front of the office building',
+            extension: 'svg',
+        },
+    ];
+
+    return {
+        domain: 'sample-library.frontify.example',
+        libraryId: 'sample-library',
+        collections: [
+            {
+                id: 'sample-collection-spring',
+                name: 'Spring Campaign 2025',
+                assetIds: ['sample-image-1', 'sample-image-2', 'sample-document-2', 'sample-audio-2', 'sample-video-1'],
+            },
+            {
+                id: 'sample-collection-products',
+                name: 'Product Shots',
+                assetIds: ['sample-image-3', 'sample-image-4', 'sample-video-2'],
+            },
+            {
+                id: 'sample-collection-brand',
+                name: 'Brand Essentials',
+                assetIds: ['sample-document-1', 'sample-audio-1', 'sample-video-1', 'sample-image-1'],
+            },
+            {
+                id: 'sample-collection-press',
+                name: 'Press Kit',
+                assetIds: ['sample-document-2', 'sample-document-3', 'sample-image-1'],
+            },
+            { id: 'sample-collection-empty', name: 'Autumn Campaign (planned)', assetIds: [] },
+        ],
+        assets,
+        properties: PROPERTIES,
+    };
+};
@@ -1,4 +1,11 @@
-import { defineSettings } from '@frontify/guideline-blocks-settings';
+import { type Bundle, defineSettings, minimumNumericalRule } from '@frontify/guideline-blocks-settings';
+
+import { DEFAULT_CACHE_TTL_MINUTES } from './cachedDataSource';
+import { parseExportProfiles } from './exportProfiles';
+import { DEFAULT_BATCH_SIZE, DEFAULT_MAX_CONCURRENT_REQUESTS } from './frontifyService';
+import { DEFAULT_CHUNK_SIZE_MB, isHttpUrl, parseDestinationHeaders } from './httpDestination';
+
+const isHttpDestination = (bundle: Bundle) => bundle.getBlock('exportDestination')?.value === 'http';
 
 export const settings = defineSettings({
     main: [
@@ -9,12 +16,34 @@ export const settings = defineSettings({
             placeholder: 'Enter your Frontify Library ID',
             info: 'The ID of the Frontify library containing your collections. Find this in your library URL or via the GraphQL API.',
         },
+        {
+            id: 'authMode',
+            type: 'dropdown',
+            label: 'Authentication',
+            // No default: blocks without a choice use their stored token if they have one, see Block
+            choices: [
+                { value: 'session', label: 'Signed-in user' },
+                { value: 'token', label: 'API bearer token' },
+            ],
+            info: "Signed-in user sends every request as the Frontify user viewing the guideline, with their permissions, and stores no token; viewers who are not signed in can't export. An API bearer token is stored in the block settings, which are sent to every viewer's browser, so anyone who can view the guideline can read it. Until you choose, blocks with a stored token use it and all others the signed-in user.",
+        },
         {
             id: 'bearerToken',
             type: 'input',
+            inputType: 'password',
             label: 'API Bearer Token',
             placeholder: 'Enter your Frontify API token',
-            info: 'Generate a Personal Developer Token by navigating to https://<your-domain>.frontify.com/api/developer/token in your browser. Select scopes: basic:read and basic:write. Use a Service User Token for Production!',
+            info: 'Generate a Personal Developer Token by navigating to https://<your-domain>.frontify.com/api/developer/token in your browser, or use a Service User Token. Exports only need the basic:read scope. Avoid basic:write: every viewer can read this token and use its scopes. Editors see a warning in the block while a token is stored.',
+            // Also shown while a token is stored, so it can be removed after switching to the signed-in user
+            show: (bundle) =>
+                bundle.getBlock('authMode')?.value === 'token' || Boolean(bundle.getBlock('bearerToken')?.value),
+        },
+        {
+            id: 'demoMode',
+            type: 'switch',
+            label: 'Demo Mode',
+            defaultValue: false,
+            info: 'Show a bundled sample library instead of your Frontify library, e.g. to try the block or present it without a token. With Authentication set to "API bearer token", the block is also in demo mode while no token is entered.',
         },
         {
             id: 'showAssetCount',
@@ -32,6 +61,236 @@ export const settings = defineSettings({
                 { value: 'count', label: 'Asset Count (High to Low)' },
             ],
         },
+        {
+            id: 'exportProfiles',
+            type: 'textarea',
+            label: 'Export Profiles',
+            placeholder:
+                '[Print Vendor]\nid = Asset ID\ntitle = Title\ncopyrightNotice = Credit\nRegion\nwhere status = Approved',
+            info: 'Named column sets viewers can pick before exporting to CSV or Excel. Start each profile with [Profile Name], then list one column per line in export order: a standard field (id, title, description, status, createdAt, modifiedAt, expiresAt, copyrightStatus, copyrightNotice, previewUrl, downloadUrl, alternativeText, duration, tags, licenses) or a custom metadata field name, optionally followed by "= Header Label". Add "where <column> <operator> <value>" lines (operators: =, !=, contains, not contains, <, >, is empty, is not empty) to only export matching assets, and "match any" to combine them with OR instead of AND.',
+            rules: [
+                {
+                    errorMessage:
+                        'Each column and filter must belong to a profile started with [Profile Name], filters must read "where <column> <operator> <value>", and every profile needs at least one column or filter.',
+                    validate: (value: string) => parseExportProfiles(value).errors.length === 0,
+                },
+            ],
+        },
+        {
+            id: 'assetLinkTemplate',
+            type: 'input',
+            label: 'Asset Link',
+            placeholder: 'https://<your-domain>.frontify.com/...{id}',
+            info: 'Address the expiry dashboard and calendar events link to, with {id} replaced by the asset ID. Copy it from an asset opened in your library and put {id} where its ID appears. Leave empty to link to the asset preview image.',
+        },
+    ],
+    basics: [
+        {
+            id: 'formattingSection',
+            type: 'sectionHeading',
+            label: 'Formatting',
+            blocks: [
+                {
+                    id: 'multiValueSeparator',
+                    type: 'dropdown',
+                    label: 'Multi-Value Separator',
+                    defaultValue: 'semicolon',
+                    choices: [
+                        { value: 'semicolon', label: 'Semicolon (a; b)' },
+                        { value: 'comma', label: 'Comma (a, b)' },
+                        { value: 'pipe', label: 'Pipe (a | b)' },
+                        { value: 'newline', label: 'Line break' },
+                    ],
+                    info: 'How the values of multi-select custom metadata are joined in CSV and Excel cells. Imports split cells on the same separator.',
+                },
+            ],
+        },
+        {
+            id: 'csvSection',
+            type: 'sectionHeading',
+            label: 'CSV Format',
+            blocks: [
+                {
+                    id: 'csvDelimiter',
+                    type: 'dropdown',
+                    label: 'Delimiter',
+                    defaultValue: 'comma',
+                    choices: [
+                        { value: 'comma', label: 'Comma (,)' },
+                        { value: 'semicolon', label: 'Semicolon (;)' },
+                        { value: 'tab', label: 'Tab' },
+                    ],
+                    info: 'Excel with a German, French or other locale that uses a decimal comma expects semicolons.',
+                },
+                {
+                    id: 'csvQuoteAll',
+                    type: 'switch',
+                    label: 'Quote All Cells',
+                    defaultValue: false,
+                    info: 'Put every cell in double quotes, not only cells containing the delimiter, quotes or line breaks.',
+                },
+                {
+                    id: 'csvLineEnding',
+                    type: 'dropdown',
+                    label: 'Line Ending',
+                    defaultValue: 'lf',
+                    choices: [
+                        { value: 'lf', label: 'LF (macOS, Linux)' },
+                        { value: 'crlf', label: 'CRLF (Windows, RFC 4180)' },
+                    ],
+                },
+                {
+                    id: 'csvBom',
+                    type: 'switch',
+                    label: 'UTF-8 BOM',
+                    defaultValue: false,
+                    info: 'Start files with a byte order mark, so Excel shows umlauts and other non-ASCII characters correctly when opening them by double-click.',
+                },
+                {
+                    id: 'csvFormulaProtection',
+                    type: 'switch',
+                    label: 'Formula Protection',
+                    defaultValue: true,
+                    info: 'Prefix cells starting with =, +, -, @, a tab or a carriage return with an apostrophe, so spreadsheets show them as text instead of running them as formulas. Plain numbers such as -12.5 are left as they are. Metadata imports remove the apostrophe again.',
+                },
+            ],
+        },
+        {
+            id: 'destinationSection',
+            type: 'sectionHeading',
+            label: 'Export Destination',
+            blocks: [
+                {
+                    id: 'exportDestination',
+                    type: 'dropdown',
+                    label: 'Send Exports To',
+                    defaultValue: 'download',
+                    choices: [
+                        { value: 'download', label: 'Browser download' },
+                        { value: 'http', label: 'HTTP endpoint' },
+                    ],
+                    info: "Where the Export button delivers files. With an HTTP endpoint, the file is sent from the viewer's browser, so the endpoint must allow cross-origin requests from this guideline. Reports, packages and other downloads stay downloads.",
+                },
+                {
+                    id: 'destinationUrl',
+                    type: 'input',
+                    label: 'URL',
+                    placeholder: 'https://intake.example.com/frontify/metadata',
+                    show: isHttpDestination,
+                    rules: [
+                        {
+                            errorMessage: 'Enter an http:// or https:// address.',
+                            validate: (value: string) => isHttpUrl(value),
+                        },
+                    ],
+                },
+                {
+                    id: 'destinationMethod',
+                    type: 'dropdown',
+                    label: 'Method',
+                    defaultValue: 'POST',
+                    choices: [
+                        { value: 'POST', label: 'POST' },
+                        { value: 'PUT', label: 'PUT' },
+                    ],
+                    show: isHttpDestination,
+                },
+                {
+                    id: 'destinationHeaders',
+                    type: 'textarea',
+                    label: 'Headers',
+                    placeholder: 'X-Partner-Id: 1234\nX-Source: frontify',
+                    info: 'One "Name: value" header per line, sent with every request. Content-Type is set by the export format unless given here.',
+                    show: isHttpDestination,
+                    rules: [
+                        {
+                            errorMessage: 'Write one header per line, as "Name: value".',
+                            validate: (value: string) => parseDestinationHeaders(value).errors.length === 0,
+                        },
+                    ],
+                },
+                {
+                    id: 'destinationAuth',
+                    type: 'dropdown',
+                    label: 'Authentication',
+                    defaultValue: 'none',
+                    choices: [
+                        { value: 'none', label: 'None' },
+                        { value: 'bearer', label: 'Bearer token' },
+                        { value: 'basic', label: 'Basic (user name and password)' },
+                    ],
+                    info: 'Block settings can be read by everyone who can view this guideline. Use credentials that only allow uploads to this endpoint.',
+                    show: isHttpDestination,
+                },
+                {
+                    id: 'destinationToken',
+                    type: 'input',
+                    inputType: 'password',
+                    label: 'Token',
+                    show: (bundle) =>
+                        isHttpDestination(bundle) && bundle.getBlock('destinationAuth')?.value === 'bearer',
+                },
+                {
+                    id: 'destinationUsername',
+                    type: 'input',
+                    label: 'User Name',
+                    show: (bundle) =>
+                        isHttpDestination(bundle) && bundle.getBlock('destinationAuth')?.value === 'basic',
+                },
+                {
+                    id: 'destinationPassword',
+                    type: 'input',
+                    inputType: 'password',
+                    label: 'Password',
+                    show: (bundle) =>
+                        isHttpDestination(bundle) && bundle.getBlock('destinationAuth')?.value === 'basic',
+                },
+                {
+                    id: 'destinationChunkSizeMb',
+                    type: 'input',
+                    inputType: 'number',
+                    label: 'Chunk Size (MB)',
+                    defaultValue: String(DEFAULT_CHUNK_SIZE_MB),
+                    rules: [minimumNumericalRule(0)],
+                    info: 'Send larger files in several requests of this size, each with a Content-Range header and a shared X-Upload-Id header. 0 sends every file in one request.',
+                    show: isHttpDestination,
+                },
+            ],
+        },
+        {
+            id: 'performanceSection',
+            type: 'sectionHeading',
+            label: 'Performance',
+            blocks: [
+                {
+                    id: 'batchSize',
+                    type: 'input',
+                    inputType: 'number',
+                    label: 'Assets per Request',
+                    defaultValue: String(DEFAULT_BATCH_SIZE),
+                    rules: [minimumNumericalRule(1)],
+                    info: 'How many asset IDs are sent in a single metadata request. Lower this if large collections fail with request-size or complexity errors.',
+                },
+                {
+                    id: 'maxConcurrentRequests',
+                    type: 'input',
+                    inputType: 'number',
+                    label: 'Parallel Requests',
+                    defaultValue: String(DEFAULT_MAX_CONCURRENT_REQUESTS),
+                    rules: [minimumNumericalRule(1)],
+                    info: 'Maximum number of metadata requests running at the same time.',
+                },
+                {
+                    id: 'cacheTtlMinutes',
+                    type: 'input',
+                    inputType: 'number',
+                    label: 'Cache Duration (Minutes)',
+                    defaultValue: String(DEFAULT_CACHE_TTL_MINUTES),
+                    rules: [minimumNumericalRule(0)],
+                    info: 'How long collection and asset listings are kept in the browser before Frontify is asked again. Asset metadata is kept longer and only fetched again for assets modified since. Viewers can refresh at any time. 0 turns the cache off.',
+                },
+            ],
+        },
     ],
     style: [
         {
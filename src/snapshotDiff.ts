@@ -0,0 +1,242 @@
+import { strFromU8 } from 'fflate';
+
+import { serializeCustomMetadataValues } from './customMetadataValues';
+import { resolveColumnKey } from './exportColumns';
+import { DATE_COLUMNS } from './exportProfiles';
+import { JSON_EXPORT_SCHEMA } from './jsonExport';
+import { readImportFile } from './metadataImport';
+import {
+    type AssetForExport,
+    type CustomMetadataPropertyDefinition,
+    type ExportColumn,
+    type ExportProfile,
+    type ExportSnapshot,
+    type ImportFieldChange,
+    type SnapshotAssetChange,
+    type SnapshotAssetReference,
+    type SnapshotDiff,
+    type StructuredAsset,
+} from './types';
+import { fromExcelSerialDate } from './xlsxReader';
+
+const SNAPSHOT_FILE_EXTENSIONS = ['.csv', '.xlsx', '.json', '.ndjson'];
+
+interface StructuredExportLine {
+    schema?: string;
+    exportedAt?: string;
+    collection?: unknown;
+    assets?: StructuredAsset[];
+    asset?: StructuredAsset;
+}
+
+/**
+ * How custom metadata of JSON snapshots is flattened; should match the service that flattens the current assets
+ */
+export interface SnapshotSerializationOptions {
+    properties?: CustomMetadataPropertyDefinition[];
+    multiValueSeparator?: string;
+}
+
+/**
+ * Flatten a structured asset into the columns prepareAssetsForExport writes, so JSON snapshots compare like CSV ones
+ */
+const flattenStructuredAsset = (
+    asset: StructuredAsset,
+    withCollectionColumn: boolean,
+    options: SnapshotSerializationOptions,
+): Record<string, string> => {
+    const row: Record<string, string> = {
+        ...(withCollectionColumn && {
+            collection: (asset.collections ?? []).map((collection) => collection.name).join('; '),
+        }),
+        title: asset.title ?? '',
+        description: asset.description ?? '',
+        status: asset.status ?? '',
+        createdAt: asset.createdAt ?? '',
+        modifiedAt: asset.modifiedAt ?? '',
+        expiresAt: asset.expiresAt ?? '',
+        copyrightStatus: asset.copyright?.status ?? '',
+        copyrightNotice: asset.copyright?.notice ?? '',
+        previewUrl: asset.previewUrl ?? '',
+        downloadUrl: asset.downloadUrl ?? '',
+        alternativeText: asset.alternativeText ?? '',
+        duration: asset.duration ?? '',
+        tags: (asset.tags ?? []).map((tag) => tag.value).join(', '),
+        licenses: (asset.licenses ?? []).map((license) => license.title).join(', '),
+    };
+
+    for (const metadata of Object.values(asset.customMetadata ?? {})) {
+        row[metadata.propertyId] = serializeCustomMetadataValues(
+            metadata.values,
+            options.properties?.find((property) => property.id === metadata.propertyId),
+            options.multiValueSeparator,
+        ).value;
+    }
+
+    return row;
+};
+
+const readStructuredSnapshot = (
+    filename: string,
+    text: string,
+    options: SnapshotSerializationOptions,
+): ExportSnapshot => {
+    const trimmed = text.trim();
+    let lines: StructuredExportLine[];
+    try {
+        lines = filename.toLowerCase().endsWith('.ndjson')
+            ? trimmed.split('\n').flatMap((line) => (line.trim() ? [JSON.parse(line) as StructuredExportLine] : []))
+            : [JSON.parse(trimmed) as StructuredExportLine];
+    } catch {
+        throw new Error(`${filename} is not a valid JSON export`);
+    }
+
+    if (lines.some((line) => line.schema !== JSON_EXPORT_SCHEMA)) {
+        throw new Error(`${filename} was not exported by this block (schema "${JSON_EXPORT_SCHEMA}" expected)`);
+    }
+
+    const rows = new Map<string, Record<string, string>>();
+    for (const line of lines) {
+        // Single-collection exports have no collection column in CSV, so they don't get one here either
+        const withCollectionColumn = line.collection === null;
+        for (const asset of line.assets ?? (line.asset ? [line.asset] : [])) {
+            rows.set(asset.id, flattenStructuredAsset(asset, withCollectionColumn, options));
+        }
+    }
+
+    return {
+        filename,
+        exportedAt: lines[0]?.exportedAt ?? null,
+        columns: [...new Set([...rows.values()].flatMap((row) => Object.keys(row)))],
+        rows,
+    };
+};
+
+/**
+ * Read a previous CSV, XLSX, JSON or NDJSON export of this block. CSV and XLSX headers are mapped back to column keys
+ * with `profile`, like on import; XLSX date cells are converted back to ISO timestamps.
+ */
+export const readSnapshotFile = (
+    filename: string,
+    data: Uint8Array,
+    profile?: ExportProfile | null,
+    options: SnapshotSerializationOptions = {},
+): ExportSnapshot => {
+    const lowerCaseName = filename.toLowerCase();
+    if (lowerCaseName.endsWith('.json') || lowerCaseName.endsWith('.ndjson')) {
+        return readStructuredSnapshot(filename, strFromU8(data), options);
+    }
+    if (lowerCaseName.endsWith('.zip')) {
+        throw new Error(
+            `${filename} is a ZIP archive. Extract the file of the collection to compare and pick that file instead.`,
+        );
+    }
+    if (!SNAPSHOT_FILE_EXTENSIONS.some((extension) => lowerCaseName.endsWith(extension))) {
+        throw new Error(`${filename} can't be compared. Pick a CSV, XLSX, JSON or NDJSON export of this block.`);
+    }
+
+    const isXlsx = lowerCaseName.endsWith('.xlsx');
+    const rows = new Map<string, Record<string, string>>();
+    for (const { values } of readImportFile(filename, data, profile)) {
+        const { id = '', ...row } = values;
+        if (!id.trim()) {
+            continue;
+        }
+        if (isXlsx) {
+            for (const key of Object.keys(row).filter((column) => DATE_COLUMNS.has(column))) {
+                const serial = Number(row[key]);
+                if (row[key] && Number.isFinite(serial)) {
+                    row[key] = fromExcelSerialDate(serial).toISOString();
+                }
+            }
+        }
+        rows.set(id.trim(), row);
+    }
+
+    return {
+        filename,
+        exportedAt: null,
+        columns: [...new Set([...rows.values()].flatMap((row) => Object.keys(row)))],
+        rows,
+    };
+};
+
+/**
+ * Compare two values of a column. Timestamps match within a second, since XLSX date cells are floating point.
+ */
+const isSameValue = (key: string, before: string, after: string): boolean => {
+    if (before.trim() === after.trim()) {
+        return true;
+    }
+    if (!DATE_COLUMNS.has(key)) {
+        return false;
+    }
+    const beforeTime = new Date(before).getTime();
+    const afterTime = new Date(after).getTime();
+    return !Number.isNaN(beforeTime) && Math.abs(beforeTime - afterTime) < 1000;
+};
+
+/**
+ * Added, removed and changed assets between a previous export and the current flattened export data.
+ * Previous columns named by label, like custom metadata property names in CSV headers, are matched to the
+ * current columns with `columns`; changes are reported by column label.
+ * `selectedAssetIds` are the IDs of every selected asset before the row filter and preview search: assets of the
+ * previous export that are among them but not in `current` are only hidden, so they are counted, not removed.
+ */
+export const createSnapshotDiff = (
+    name: string,
+    previous: ExportSnapshot,
+    current: AssetForExport[],
+    columns: ExportColumn[],
+    selectedAssetIds?: ReadonlySet<string>,
+    now = new Date(),
+): SnapshotDiff => {
+    const currentColumns = new Set([
+        ...columns.map((column) => column.key),
+        ...current.flatMap((data) => Object.keys(data)),
+    ]);
+    const currentKeys = new Map(previous.columns.map((column) => [column, resolveColumnKey(column, columns)]));
+    const getLabel = (column: string) =>
+        columns.find((candidate) => candidate.key === currentKeys.get(column))?.label ?? column;
+    const comparedColumns = previous.columns.filter((column) => currentColumns.has(currentKeys.get(column) ?? column));
+    const currentIds = new Set(current.map((data) => data.id));
+
+    const added: SnapshotAssetReference[] = [];
+    const changed: SnapshotAssetChange[] = [];
+    for (const data of current) {
+        const previousRow = previous.rows.get(data.id);
+        if (!previousRow) {
+            added.push({ assetId: data.id, title: data.title });
+            continue;
+        }
+
+        const changes: ImportFieldChange[] = comparedColumns.flatMap((column) => {
+            const key = currentKeys.get(column) ?? column;
+            const before = previousRow[column] ?? '';
+            const after = String(data[key] ?? '');
+            return isSameValue(key, before, after) ? [] : [{ key: getLabel(column), before, after }];
+        });
+        if (changes.length > 0) {
+            changed.push({ assetId: data.id, title: data.title, changes });
+        }
+    }
+
+    const missing = [...previous.rows.entries()].filter(([assetId]) => !currentIds.has(assetId));
+    const removed = missing
+        .filter(([assetId]) => !selectedAssetIds?.has(assetId))
+        .map(([assetId, row]) => ({ assetId, title: row.title ?? '' }));
+
+    return {
+        name,
+        previousFilename: previous.filename,
+        previousExportedAt: previous.exportedAt,
+        createdAt: now.toISOString(),
+        comparedColumns: comparedColumns.map((column) => getLabel(column)),
+        skippedColumns: previous.columns.filter((column) => !currentColumns.has(currentKeys.get(column) ?? column)),
+        added,
+        removed,
+        changed,
+        unchangedCount: current.length - added.length - changed.length,
+        hiddenCount: missing.length - removed.length,
+    };
+};
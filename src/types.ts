@@ -1,13 +1,48 @@
+import { type CsvDialect } from './csvWriter';
+
 export interface Settings {
     libraryId: string;
+    /** `session` (the signed-in user) or `token` (bearerToken) */
+    authMode?: string;
     bearerToken: string;
+    demoMode?: boolean;
     showAssetCount: boolean;
     sortBy: string;
+    batchSize?: string;
+    maxConcurrentRequests?: string;
+    cacheTtlMinutes?: string;
+    exportProfiles?: string;
+    assetLinkTemplate?: string;
+    multiValueSeparator?: string;
+    csvDelimiter?: string;
+    csvQuoteAll?: boolean;
+    csvLineEnding?: string;
+    csvBom?: boolean;
+    csvFormulaProtection?: boolean;
+    exportDestination?: string;
+    destinationUrl?: string;
+    destinationMethod?: string;
+    destinationHeaders?: string;
+    destinationAuth?: string;
+    destinationToken?: string;
+    destinationUsername?: string;
+    destinationPassword?: string;
+    destinationChunkSizeMb?: string;
     primaryColor?: { red: number; green: number; blue: number; alpha: number };
     textColor?: { red: number; green: number; blue: number; alpha: number };
     borderColor?: { red: number; green: number; blue: number; alpha: number };
 }
 
+/**
+ * Resolved colors from the block's style settings, passed to child components
+ */
+export interface BlockTheme {
+    primaryColor: string;
+    primaryHoverColor: string;
+    textColor: string;
+    borderColor: string;
+}
+
 export interface CustomMetadataProperty {
     id: string;
     name: string;
@@ -41,6 +76,7 @@ export interface License {
 }
 
 export interface FrontifyAsset {
+    __typename?: string;
     id: string;
     title?: string;
     description?: string;
@@ -56,6 +92,95 @@ export interface FrontifyAsset {
     downloadUrl?: string;
     alternativeText?: string;
     duration?: string;
+    /** File extension of the original, without the dot */
+    extension?: string;
+}
+
+export interface ExportColumn {
+    /** Key in AssetForExport: a standard field or a custom metadata property ID */
+    key: string;
+    /** Header label written to the exported file */
+    label: string;
+}
+
+export type FilterOperator =
+    | 'equals'
+    | 'notEquals'
+    | 'contains'
+    | 'notContains'
+    | 'lessThan'
+    | 'greaterThan'
+    | 'isEmpty'
+    | 'isNotEmpty';
+
+export interface FilterCondition {
+    /** Key in AssetForExport, or a column label such as a custom metadata property name */
+    key: string;
+    operator: FilterOperator;
+    value: string;
+}
+
+/**
+ * Row filter applied to the flattened export data: assets matching all (AND) or any (OR) of the conditions
+ */
+export interface ExportFilter {
+    match: 'all' | 'any';
+    conditions: FilterCondition[];
+}
+
+export interface ExportProfile {
+    name: string;
+    /** Empty when the profile only filters rows, in which case every available column is exported */
+    columns: ExportColumn[];
+    filter?: ExportFilter;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+/**
+ * An asset in a collection or library listing; `modifiedAt` tells cached metadata from outdated metadata
+ */
+export interface AssetReference {
+    id: string;
+    modifiedAt?: string;
+}
+
+/**
+ * Where FrontifyService reads assets and writes metadata: the Frontify GraphQL API (GraphQLDataSource)
+ * or the bundled sample library of demo mode (FixtureDataSource)
+ */
+export interface FrontifyDataSource {
+    /** Frontify host name, used in calendar event UIDs */
+    readonly domain: string;
+    readonly libraryId: string;
+    fetchCollections(): Promise<FrontifyCollection[]>;
+    fetchCollectionAssetRefs(collectionId: string): Promise<AssetReference[]>;
+    fetchLibraryAssetRefs(): Promise<AssetReference[]>;
+    /** Metadata of one batch of assets; assets that can't be resolved are left out */
+    fetchAssetsByIds(assetIds: string[]): Promise<FrontifyAsset[]>;
+    fetchCustomMetadataProperties(): Promise<CustomMetadataPropertyDefinition[]>;
+    updateAsset(assetId: string, data: AssetUpdateData): Promise<void>;
+}
+
+export interface FrontifyServiceOptions {
+    batchSize?: number;
+    maxConcurrentRequests?: number;
+    /** Problems that don't stop an export, such as custom metadata values that can't be serialized */
+    onWarning?: (message: string) => void;
+    /** Between the values of multi-value custom metadata, `; ` by default */
+    multiValueSeparator?: string;
+    /** Delimiter, quoting, line ending, BOM and formula protection of every CSV file the service writes */
+    csvDialect?: CsvDialect;
+}
+
+export interface ExportProgress {
+    loaded: number;
+    total: number;
+}
+
+export interface PaginatedList<T> {
+    total: number;
+    items: T[];
 }
 
 export interface FrontifyCollection {
@@ -81,4 +206,379 @@ export interface AssetForExport {
     tags: string;
     licenses: string;
     [key: string]: string | number; // Allow dynamic custom metadata fields
-}
\ No newline at end of file
+}
+
+/**
+ * A custom metadata field in structured (JSON/NDJSON) exports, keyed by property ID.
+ * `values` always holds the raw values as returned by the API: plain strings, or
+ * `{ optionId, text }` objects for select options. Single-value fields have at most one entry.
+ */
+export interface StructuredCustomMetadata {
+    propertyId: string;
+    propertyName: string;
+    multiple: boolean;
+    values: (CustomMetadataValue | string)[];
+}
+
+/**
+ * One asset in structured (JSON/NDJSON) exports, see "JSON Export Schema" in the README.
+ */
+export interface StructuredAsset {
+    id: string;
+    /** Exported collections the asset belongs to (since schema 1.1) */
+    collections: StructuredExportCollection[];
+    type: string | null;
+    title: string | null;
+    description: string | null;
+    status: string | null;
+    createdAt: string | null;
+    modifiedAt: string | null;
+    expiresAt: string | null;
+    copyright: Copyright | null;
+    tags: Tag[];
+    licenses: License[];
+    previewUrl: string | null;
+    downloadUrl: string | null;
+    alternativeText: string | null;
+    duration: string | null;
+    customMetadata: Record<string, StructuredCustomMetadata>;
+}
+
+export interface StructuredExportCollection {
+    id: string;
+    name: string;
+}
+
+/**
+ * What an export file covers: one collection, several collections merged into one file, or the entire library
+ */
+export type ExportScope = 'collection' | 'collections' | 'library';
+
+export interface ExportSource {
+    scope: ExportScope;
+    /** Used for the file name */
+    name: string;
+    collections: StructuredExportCollection[];
+    /** Collections each asset belongs to, set for merged multi-collection and library exports */
+    assetCollections?: Map<string, StructuredExportCollection[]>;
+}
+
+/**
+ * Rows of CSV and XLSX files: one per asset with multiple values joined (`wide`), one per value of a chosen
+ * column (`explode`), or one per asset, column and value (`long`)
+ */
+export type RowLayout = 'wide' | 'explode' | 'long';
+
+export interface ExportOptions {
+    profile?: ExportProfile | null;
+    sheetPerAssetType?: boolean;
+    /** Only export assets whose flattened export data matches the filter */
+    filter?: ExportFilter | null;
+    rowLayout?: RowLayout;
+    /** Column key or label whose values get a row each with the `explode` layout, e.g. `tags` */
+    explodeColumn?: string;
+    /** Set for incremental exports, which list the assets removed since alongside the changed assets */
+    changes?: ExportChanges | null;
+}
+
+/**
+ * State of a collection, or of the library, at an export, so a later export can include only what changed since
+ */
+export interface ExportWatermark {
+    /** Collection ID, or `library` for exports of the entire library */
+    scopeId: string;
+    exportedAt: string;
+    /** Latest `modifiedAt` or `createdAt` of the assets, by Frontify's clock rather than the browser's */
+    latestModifiedAt: string | null;
+    /** Every asset in the collection or library at the export, to find assets removed since */
+    assetIds: string[];
+}
+
+/**
+ * What an incremental export covers: assets created or modified after `since`, or added to the collection since the
+ * baseline export, and the assets removed since the baseline export (null without a recorded baseline)
+ */
+export interface ExportChanges {
+    since: string;
+    removedAssetIds: string[] | null;
+}
+
+export interface ExportFile {
+    filename: string;
+    mimeType: string;
+    content: string | Uint8Array;
+}
+
+export type HttpDestinationAuth =
+    | { type: 'none' }
+    | { type: 'bearer'; token: string }
+    | { type: 'basic'; username: string; password: string };
+
+/**
+ * Endpoint that exports are sent to instead of being downloaded
+ */
+export interface HttpDestination {
+    url: string;
+    method: 'POST' | 'PUT';
+    /** Sent with every request; a Content-Type here replaces the one of the export format */
+    headers: Record<string, string>;
+    auth: HttpDestinationAuth;
+    /** Send files larger than this in several requests with a Content-Range header; 0 sends every file at once */
+    chunkSizeBytes: number;
+}
+
+/**
+ * The destination's answer to the last request of an upload
+ */
+export interface HttpDestinationResponse {
+    status: number;
+    statusText: string;
+    /** Number of requests the file was sent in */
+    requestCount: number;
+}
+
+export type MultiCollectionExportMode = 'merged' | 'zip';
+
+export interface CollectionExportGroup {
+    collection: StructuredExportCollection;
+    assetIds: string[];
+}
+
+/**
+ * Assets of several collections, each asset fetched once even if it is in more than one collection.
+ */
+export interface CollectionAssetsResult {
+    assets: FrontifyAsset[];
+    groups: CollectionExportGroup[];
+}
+
+/**
+ * `manifest.json` in ZIP exports with one file per collection
+ */
+export interface CollectionExportManifest {
+    exportedAt: string;
+    format: ExportFormat;
+    collectionCount: number;
+    uniqueAssetCount: number;
+    collections: Array<StructuredExportCollection & { file: string | null; assetCount: number }>;
+}
+
+/**
+ * One row of the preview grid: the asset and its flattened export columns
+ */
+export interface PreviewRow {
+    asset: FrontifyAsset;
+    data: AssetForExport;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface PreviewSort {
+    key: string;
+    direction: SortDirection;
+}
+
+/**
+ * Search and sort applied to the preview grid, and therefore to the export
+ */
+export interface PreviewView {
+    searchText: string;
+    sort: PreviewSort | null;
+}
+
+/**
+ * A custom metadata property of the library, as needed to write values back to Frontify
+ */
+export interface CustomMetadataPropertyDefinition {
+    id: string;
+    name: string;
+    /** GraphQL type name of the property type, e.g. `CustomMetadataPropertyTypeSelect` */
+    type: string;
+    /** Selectable options of select and multi-select properties */
+    options: { id: string; value: string }[];
+}
+
+/**
+ * One row of an import file: column keys (see resolveImportColumnKey) mapped to cell text
+ */
+export interface ImportRecord {
+    /** Sheet and row the record was read from, for reporting */
+    source: string;
+    values: Record<string, string>;
+}
+
+export interface ImportFieldChange {
+    key: string;
+    before: string;
+    after: string;
+}
+
+/**
+ * Data for the `updateAsset` mutation
+ */
+export interface AssetUpdateData {
+    title?: string;
+    description?: string;
+    alternativeText?: string;
+    customMetadata?: { propertyId: string; value: string | string[] | null }[];
+}
+
+export interface ImportRowPlan {
+    source: string;
+    assetId: string;
+    /** Current asset title, for display */
+    title: string;
+    changes: ImportFieldChange[];
+    update: AssetUpdateData;
+    /** Why the row cannot be applied; rows with an error are skipped */
+    error?: string;
+    /** Current flattened metadata, written to the undo file */
+    current?: AssetForExport;
+}
+
+/**
+ * Changes an import file would make, computed before anything is written
+ */
+export interface MetadataImportPlan {
+    rows: ImportRowPlan[];
+    /** Column keys that will be compared and written */
+    editableColumns: string[];
+    /** Read-only or unknown columns of the file, left untouched */
+    ignoredColumns: string[];
+}
+
+export interface ImportRowResult {
+    source: string;
+    assetId: string;
+    status: 'applied' | 'failed';
+    message?: string;
+}
+
+/**
+ * How many assets have a value for one field
+ */
+export interface FieldCompleteness {
+    /** Standard column key or custom metadata property ID */
+    key: string;
+    /** Column label: the key of standard columns, the property name of custom metadata */
+    label: string;
+    custom: boolean;
+    filledCount: number;
+    /** Assets the field applies to, e.g. only images and videos for `alternativeText` */
+    applicableCount: number;
+    missingAssetIds: string[];
+}
+
+export type QualityIssueType = 'missingAltText' | 'missingCopyrightNotice' | 'expired' | 'duplicateTitle';
+
+export interface QualityIssue {
+    type: QualityIssueType;
+    assetId: string;
+    title: string;
+    detail: string;
+}
+
+/**
+ * Metadata completeness and quality of a set of assets
+ */
+export interface MetadataReport {
+    name: string;
+    createdAt: string;
+    assetCount: number;
+    fields: FieldCompleteness[];
+    issues: QualityIssue[];
+    /** Asset titles by ID, for listing assets with missing values */
+    assetTitles: Record<string, string>;
+}
+
+export type ExpiryWindow = 'expired' | 'next30Days' | 'next60Days' | 'next90Days' | 'later';
+
+export interface ExpiringAsset {
+    assetId: string;
+    title: string;
+    expiresAt: string;
+    /** Whole days from now until expiry, negative once expired */
+    daysUntilExpiry: number;
+    window: ExpiryWindow;
+    /** Names of the selected collections the asset belongs to */
+    collections: string[];
+    /** Where calendar events and the dashboard link to */
+    url: string;
+}
+
+/**
+ * Assets with an expiry date, sorted by date, for the expiry dashboard and calendar export
+ */
+export interface ExpiryOverview {
+    name: string;
+    createdAt: string;
+    assetCount: number;
+    assets: ExpiringAsset[];
+    /** Assets without an expiry date */
+    withoutExpiryCount: number;
+}
+
+/** Which file of each asset goes into a download package */
+export type PackageFileVariant = 'original' | 'preview';
+
+export interface AssetPackageOptions extends ExportOptions {
+    variant: PackageFileVariant;
+    /** File name pattern with `{column key}` placeholders, e.g. `{title}_{id}` */
+    filenamePattern: string;
+}
+
+export interface PackageFileFailure {
+    assetId: string;
+    title: string;
+    reason: string;
+}
+
+/**
+ * ZIP of asset files plus a metadata manifest, and the files that could not be added
+ */
+export interface AssetPackage {
+    file: ExportFile;
+    fileCount: number;
+    failures: PackageFileFailure[];
+}
+
+/**
+ * Flattened asset rows of a previously exported file, keyed by asset ID
+ */
+export interface ExportSnapshot {
+    filename: string;
+    /** When the file was exported, if it records it (JSON and NDJSON) */
+    exportedAt: string | null;
+    /** Column keys found in the file, without `id` */
+    columns: string[];
+    rows: Map<string, Record<string, string>>;
+}
+
+export interface SnapshotAssetReference {
+    assetId: string;
+    title: string;
+}
+
+export interface SnapshotAssetChange extends SnapshotAssetReference {
+    changes: ImportFieldChange[];
+}
+
+/**
+ * Differences between a previous export and the current assets
+ */
+export interface SnapshotDiff {
+    name: string;
+    previousFilename: string;
+    previousExportedAt: string | null;
+    createdAt: string;
+    /** Columns compared: those of the previous file that the current export also has */
+    comparedColumns: string[];
+    /** Columns of the previous file the current export doesn't have, e.g. when exported with another profile */
+    skippedColumns: string[];
+    added: SnapshotAssetReference[];
+    removed: SnapshotAssetReference[];
+    changed: SnapshotAssetChange[];
+    unchangedCount: number;
+    /** Assets of the previous file that are still selected but hidden by the row filter or preview search */
+    hiddenCount: number;
+}
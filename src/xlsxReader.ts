@@ -0,0 +1,136 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+export interface XlsxSheetRows {
+    name: string;
+    /** Rows in sheet order; each row is padded to its last non-empty cell */
+    rows: { rowNumber: number; cells: string[] }[];
+}
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch, as in xlsxWriter
+const EXCEL_EPOCH_OFFSET_DAYS = 25_569;
+const MS_PER_DAY = 86_400_000;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const unescapeXml = (value: string): string =>
+    value.replaceAll(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity: string, name: string) => {
+        if (name.startsWith('#x') || name.startsWith('#X')) {
+            return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+        }
+        if (name.startsWith('#')) {
+            return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+        }
+        return XML_ENTITIES[name] ?? entity;
+    });
+
+const getAttribute = (tag: string, name: string): string | undefined =>
+    new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+
+/**
+ * Concatenate the text of every <t> element, which covers plain and rich-text (run-formatted) strings
+ */
+const getText = (xml: string): string =>
+    [...xml.matchAll(/<t(?:\s[^>]*)?>([\S\s]*?)<\/t>/g)].map((match) => unescapeXml(match[1])).join('');
+
+/**
+ * Convert a spreadsheet column reference to a zero-based index (A -> 0, AA -> 26)
+ */
+const columnIndex = (reference: string): number => {
+    const letters = /^[a-z]+/i.exec(reference)?.[0].toUpperCase() ?? 'A';
+    let index = 0;
+    for (const letter of letters) {
+        index = index * 26 + (letter.codePointAt(0) ?? 65) - 64;
+    }
+    return index - 1;
+};
+
+const readSharedStrings = (files: Record<string, Uint8Array>): string[] => {
+    const file = files['xl/sharedStrings.xml'];
+    if (!file) {
+        return [];
+    }
+    return [...strFromU8(file).matchAll(/<si>([\S\s]*?)<\/si>/g)].map((match) => getText(match[1]));
+};
+
+const readCellValue = (cellTag: string, cellBody: string, sharedStrings: string[]): string => {
+    const type = getAttribute(cellTag, 't');
+    const value = /<v>([\S\s]*?)<\/v>/.exec(cellBody)?.[1];
+
+    switch (type) {
+        case 's':
+            return sharedStrings[Number(value)] ?? '';
+        case 'inlineStr':
+            return getText(cellBody);
+        case 'b':
+            return value === '1' ? 'TRUE' : 'FALSE';
+        default:
+            return value === undefined ? '' : unescapeXml(value);
+    }
+};
+
+const readWorksheet = (xml: string, sharedStrings: string[]): XlsxSheetRows['rows'] => {
+    const rows: XlsxSheetRows['rows'] = [];
+
+    for (const [rowIndex, rowMatch] of [...xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\S\s]*?)<\/row>)/g)].entries()) {
+        const rowNumber = Number(getAttribute(rowMatch[1], 'r')) || rowIndex + 1;
+        const cells: string[] = [];
+
+        for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\S\s]*?)<\/c>)/g)) {
+            const reference = getAttribute(cellMatch[1], 'r');
+            const index = reference ? columnIndex(reference) : cells.length;
+            while (cells.length < index) {
+                cells.push('');
+            }
+            cells[index] = readCellValue(cellMatch[1], cellMatch[2] ?? '', sharedStrings);
+        }
+
+        rows.push({ rowNumber, cells });
+    }
+
+    return rows;
+};
+
+/**
+ * Read every worksheet of an .xlsx workbook as text cells, in workbook order.
+ * Numbers are returned as written in the file; dates are not converted from their serial numbers.
+ */
+export const readXlsxWorkbook = (data: Uint8Array): XlsxSheetRows[] => {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = unzipSync(data);
+    } catch {
+        throw new Error('The file is not a valid Excel (.xlsx) workbook');
+    }
+
+    const workbook = files['xl/workbook.xml'];
+    const relationships = files['xl/_rels/workbook.xml.rels'];
+    if (!workbook || !relationships) {
+        throw new Error('The file is not a valid Excel (.xlsx) workbook');
+    }
+
+    const targets = new Map(
+        [...strFromU8(relationships).matchAll(/<Relationship\b[^>]*>/g)].map((match) => [
+            getAttribute(match[0], 'Id'),
+            getAttribute(match[0], 'Target'),
+        ]),
+    );
+    const sharedStrings = readSharedStrings(files);
+
+    return [...strFromU8(workbook).matchAll(/<sheet\b[^>]*>/g)].map((match) => {
+        const target = targets.get(getAttribute(match[0], 'r:id')) ?? '';
+        // Targets are relative to xl/, or absolute from the package root
+        const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        const sheet = files[path];
+
+        return {
+            name: unescapeXml(getAttribute(match[0], 'name') ?? ''),
+            rows: sheet ? readWorksheet(strFromU8(sheet), sharedStrings) : [],
+        };
+    });
+};
+
+/**
+ * Convert an Excel serial date (days since 1899-12-30, as written by xlsxWriter) to a date, rounded to the millisecond
+ */
+export const fromExcelSerialDate = (serial: number): Date =>
+    new Date(Math.round((serial - EXCEL_EPOCH_OFFSET_DAYS) * MS_PER_DAY));
@@ -0,0 +1,212 @@
+import { strToU8, zipSync } from 'fflate';
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxSheet {
+    name: string;
+    headers: string[];
+    rows: XlsxCellValue[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Style indexes into cellXfs in STYLES_XML
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+const DATE_COLUMN_WIDTH = 20;
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25_569;
+const MS_PER_DAY = 86_400_000;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// Characters that are not allowed in XML 1.0 documents: control characters other than tab and line breaks,
+// lone surrogates, U+FFFE and U+FFFF
+const INVALID_XML_CHARS = /(?![\t\n\r])[\p{Cc}\p{Cs}\uFFFE\uFFFF]/gu;
+
+const escapeXml = (value: string): string =>
+    value
+        .replaceAll(INVALID_XML_CHARS, '')
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;');
+
+/**
+ * Convert a zero-based column index to its spreadsheet letter (0 -> A, 26 -> AA).
+ */
+const columnLetter = (index: number): string => {
+    let letter = '';
+    for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+        letter = String.fromCodePoint(65 + ((remaining - 1) % 26)) + letter;
+    }
+    return letter;
+};
+
+const toExcelSerialDate = (date: Date): number => date.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+
+const renderCell = (reference: string, value: XlsxCellValue, style?: number): string => {
+    const styleAttribute = style ? ` s="${style}"` : '';
+
+    if (value === null || value === undefined || value === '') {
+        return '';
+    }
+    if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) {
+            return '';
+        }
+        return `<c r="${reference}" s="${STYLE_DATE}"><v>${toExcelSerialDate(value)}</v></c>`;
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : '';
+    }
+    if (typeof value === 'boolean') {
+        return `<c r="${reference}" t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    // Inline strings are kept verbatim, so values such as SKUs keep their leading zeros
+    return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const getDisplayLength = (value: XlsxCellValue): number => {
+    if (value instanceof Date) {
+        return DATE_COLUMN_WIDTH;
+    }
+    if (value === null || value === undefined) {
+        return 0;
+    }
+    // Multi-line cells are as wide as their longest line
+    return String(value)
+        .split('\n')
+        .reduce((longest, line) => Math.max(longest, line.length), 0);
+};
+
+const renderColumns = (sheet: XlsxSheet): string => {
+    const columns = sheet.headers.map((header, columnIndex) => {
+        const contentLength = sheet.rows.reduce(
+            (longest, row) => Math.max(longest, getDisplayLength(row[columnIndex])),
+            header.length,
+        );
+        const width = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, contentLength + 2));
+        return `<col min="${columnIndex + 1}" max="${columnIndex + 1}" width="${width}" customWidth="1"/>`;
+    });
+
+    return columns.length > 0 ? `<cols>${columns.join('')}</cols>` : '';
+};
+
+const renderWorksheet = (sheet: XlsxSheet): string => {
+    const headerCells = sheet.headers
+        .map((header, columnIndex) => renderCell(`${columnLetter(columnIndex)}1`, header, STYLE_HEADER))
+        .join('');
+
+    const dataRows = sheet.rows.map((row, rowIndex) => {
+        const rowNumber = rowIndex + 2;
+        const cells = sheet.headers
+            .map((_, columnIndex) => renderCell(`${columnLetter(columnIndex)}${rowNumber}`, row[columnIndex]))
+            .join('');
+        return `<row r="${rowNumber}">${cells}</row>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+${renderColumns(sheet)}
+<sheetData><row r="1">${headerCells}</row>${dataRows.join('')}</sheetData>
+</worksheet>`;
+};
+
+/**
+ * Make sheet names valid for Excel: at most 31 characters, none of []:*?/\ and unique within the workbook.
+ */
+const toUniqueSheetNames = (names: string[]): string[] => {
+    const used = new Set<string>();
+
+    return names.map((name) => {
+        const base =
+            name
+                .replaceAll(/[*/:?[\\\]]/g, ' ')
+                .trim()
+                .slice(0, 31) || 'Sheet';
+        let candidate = base;
+        for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+            candidate = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix}`;
+        }
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+};
+
+/**
+ * Build an .xlsx workbook (Office Open XML) with one worksheet per entry in `sheets`.
+ * Every sheet gets a bold, frozen header row and columns sized to their content.
+ */
+export const createXlsxWorkbook = (sheets: XlsxSheet[]): Uint8Array => {
+    if (sheets.length === 0) {
+        throw new Error('An XLSX workbook needs at least one sheet');
+    }
+
+    const sheetNames = toUniqueSheetNames(sheets.map((sheet) => sheet.name));
+    const files: Record<string, Uint8Array> = {};
+
+    files['[Content_Types].xml'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets
+    .map(
+        (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+    )
+    .join('\n')}
+</Types>`);
+
+    files['_rels/.rels'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+
+    files['xl/workbook.xml'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheetNames
+        .map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+        .join('')}</sheets>
+</workbook>`);
+
+    files['xl/_rels/workbook.xml.rels'] = strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets
+    .map(
+        (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+    )
+    .join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`);
+
+    files['xl/styles.xml'] = strToU8(STYLES_XML);
+
+    for (const [index, sheet] of sheets.entries()) {
+        files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(renderWorksheet(sheet));
+    }
+
+    return zipSync(files, { level: 6 });
+};